@@ -4,59 +4,759 @@ import {
   Users, Calendar, CreditCard, Settings as SettingsIcon, 
   MessageCircle, BarChart2, Plus, Trash2, Edit2, 
   Check, AlertTriangle, Key, Save, Upload, Download,
-  Menu, X, DollarSign, Image as ImageIcon, Camera, Lock, Clock, AlertOctagon, MessageSquare, Briefcase, ChevronDown, ChevronUp, ChevronRight, Calendar as CalendarIcon, FileText, Phone, UserPlus, Crown, Star, Award, Cake, QrCode, Search, Filter, Monitor, ArrowRight, ShieldCheck, Zap, Globe
+  Menu, X, DollarSign, Image as ImageIcon, Camera, Lock, Clock, AlertOctagon, MessageSquare, Briefcase, ChevronDown, ChevronUp, ChevronRight, Calendar as CalendarIcon, FileText, Phone, UserPlus, Crown, Star, Award, Cake, QrCode, Search, Filter, Monitor, ArrowRight, ShieldCheck, Zap, Globe, Copy, Megaphone, SkipForward, ChevronLeft, TrendingUp, Share2, Tag, Server
 } from 'lucide-react';
-import { AppData, Client, Plan, Settings, MessageTemplate, ViewState, AccountPayable, AccountInstallment } from './types';
-import { SPLASH_IMAGE, SUPPORT_IMAGE, SUPPORT_PHONE, SUPPORT_EMAIL, DAILY_KEYS, ANNUAL_KEYS, LIFETIME_KEYS, DEFAULT_TEMPLATES, TRANSLATIONS } from './constants';
+import { ResponsiveContainer, ComposedChart, BarChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, PieChart, Pie, Cell } from 'recharts';
+import { AppData, Client, Plan, PlanPeriod, PlanPriceChange, Settings, MessageTemplate, ViewState, AccountPayable, AccountInstallment, InstallmentPayment, AccountRecurrence, BackupFile, Campaign, CampaignSegment, MessageContext, MessageLogEntry, ReminderRule, RenewalDiscount, Coupon, Subscription, Device, DeviceType, Supplier, SupplierMovement, LedgerEntry, LedgerEntryType, PaymentMethod, PixCharge } from './types';
+import { SPLASH_IMAGE, SUPPORT_IMAGE, SUPPORT_PHONE, SUPPORT_EMAIL, DAILY_KEYS, ANNUAL_KEYS, LIFETIME_KEYS, DEFAULT_TEMPLATES, DEFAULT_REMINDER_RULES, TRANSLATIONS, STORAGE_KEY, BACKUP_APP_ID, SCHEMA_VERSION } from './constants';
+import { normalizePixKey, isValidPixKey, generatePixTxid, generatePix } from './pix';
+import { drawQrCode } from './qr';
+import { parseCsv, toCsv, normalizeHeader, normalizeWhatsapp, parseCsvDate, parseCsvAmount } from './csv';
+import { parseLocalDate, toDateStr, daysBetween, addPlanPeriod, getScheduledDueDate } from './dates';
 
 // --- Helpers ---
 
-const parseLocalDate = (dateStr: string | undefined) => {
-  if (!dateStr) return new Date();
-  const [year, month, day] = dateStr.split('-').map(Number);
-  return new Date(year, month - 1, day);
+// Next occurrence of a YYYY-MM-DD birthday on or after `from` (midnight).
+// Feb 29 birthdays are celebrated on Feb 28 in common years.
+const getNextBirthday = (birthDate: string, from: Date) => {
+  const [, month, day] = birthDate.split('-').map(Number);
+  const occurrence = (year: number) => {
+    const isLeap = new Date(year, 1, 29).getMonth() === 1;
+    return new Date(year, month - 1, month === 2 && day === 29 && !isLeap ? 28 : day);
+  };
+  const next = occurrence(from.getFullYear());
+  return next < from ? occurrence(from.getFullYear() + 1) : next;
 };
 
-const crc16ccitt = (str: string) => {
-  let crc = 0xFFFF;
-  for (let c = 0; c < str.length; c++) {
-    crc ^= str.charCodeAt(c) << 8;
-    for (let i = 0; i < 8; i++) {
-      if (crc & 0x8000) crc = (crc << 1) ^ 0x1021;
-      else crc = crc << 1;
-    }
+const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// --- Plans ---
+
+const NAMED_PERIODS: Record<number, keyof typeof TRANSLATIONS['pt']> = {
+  1: 'periodMonthly', 3: 'periodQuarterly', 6: 'periodSemiannual', 12: 'periodAnnual'
+};
+
+const describePeriod = (period: PlanPeriod, t: Translate) => period.unit === 'months' && NAMED_PERIODS[period.length]
+  ? t(NAMED_PERIODS[period.length])
+  : t(period.unit === 'months' ? 'periodMonths' : 'periodDays', { n: period.length });
+
+const newPlanPeriod = (price: number, length = 1, unit: PlanPeriod['unit'] = 'months'): PlanPeriod => ({
+  id: `${Date.now()}${Math.random().toString(36).slice(2, 6)}`, unit, length, price
+});
+
+// Plans created from a single value (inline in the client form, CSV) start monthly with one screen
+const createPlan = (name: string, price: number, id = Date.now().toString()): Plan => ({
+  id, name, description: '', connections: 1, periods: [newPlanPeriod(price)], priceHistory: []
+});
+
+const getClientPeriod = (client: Pick<Client, 'periodId'>, plan?: Plan) =>
+  plan?.periods.find(p => p.id === client.periodId) || plan?.periods[0];
+
+// Latest price version in effect on `date`; before any change the period's own price applies
+const getPeriodPrice = (plan: Plan, period: PlanPeriod, date = toDateStr(new Date())) => {
+  const versions = plan.priceHistory
+    .filter(h => h.periodId === period.id && h.effectiveFrom <= date)
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom) || a.changedAt.localeCompare(b.changedAt));
+  return versions.length ? versions[versions.length - 1].price : period.price;
+};
+
+const getPlanPrice = (plan?: Plan) => plan ? getPeriodPrice(plan, plan.periods[0]) : 0;
+
+// What the client pays for a period: a grandfathered/special price, otherwise the plan's price on `date`
+const getClientPrice = (client: Pick<Client, 'periodId' | 'priceOverrides'>, plan?: Plan, period = getClientPeriod(client, plan), date?: string) =>
+  !plan || !period ? 0 : client.priceOverrides?.[period.id] ?? getPeriodPrice(plan, period, date);
+
+// Normalizes a period price to one month so plans sold in different periods can be compared
+const monthlyEquivalent = (price: number, period: PlanPeriod) =>
+  period.unit === 'months' ? price / period.length : price * 30 / period.length;
+
+// --- Subscriptions ---
+
+const SUBSCRIPTION_STATUS_LABELS: Record<Subscription['status'], keyof typeof TRANSLATIONS['pt']> = {
+  active: 'subscriptionActive', suspended: 'subscriptionSuspended', cancelled: 'subscriptionCancelled'
+};
+
+const newSubscription = (planId: string, dueDate: string, extra: Partial<Omit<Subscription, 'planId' | 'dueDate'>> = {}): Subscription => ({
+  id: `${Date.now()}${Math.random().toString(36).slice(2, 6)}`,
+  planId,
+  dueDate,
+  status: 'active',
+  ...extra
+});
+
+const getActiveSubscriptions = (client: Pick<Client, 'subscriptions'>) => client.subscriptions.filter(s => s.status === 'active');
+
+// The client-level plan fields follow the active line that expires first (or the first line when
+// none is active), so templates, reminders and campaigns keep addressing one date per client.
+const getPrimarySubscription = (subscriptions: Subscription[]) =>
+  subscriptions.filter(s => s.status === 'active').sort((a, b) => a.dueDate.localeCompare(b.dueDate))[0] || subscriptions[0];
+
+const subscriptionFields = (subscriptions: Subscription[]): Pick<Client, 'subscriptions' | 'planId' | 'periodId' | 'priceOverrides' | 'dueDate' | 'dueTime'> => {
+  const primary = getPrimarySubscription(subscriptions);
+  return { subscriptions, planId: primary.planId, periodId: primary.periodId, priceOverrides: primary.priceOverrides, dueDate: primary.dueDate, dueTime: primary.dueTime };
+};
+
+const withSubscriptions = (client: Client, subscriptions: Subscription[]): Client => ({ ...client, ...subscriptionFields(subscriptions) });
+
+// What the client pays per cycle across all active lines
+const getClientRecurringPrice = (client: Pick<Client, 'subscriptions'>, plans: Plan[]) =>
+  roundMoney(getActiveSubscriptions(client).reduce((sum, s) => sum + getClientPrice(s, plans.find(p => p.id === s.planId)), 0));
+
+const describeSubscription = (sub: Subscription, plans: Plan[]) =>
+  [plans.find(p => p.id === sub.planId)?.name, sub.username].filter(Boolean).join(' · ');
+
+const DEVICE_TYPE_LABELS: Record<DeviceType, keyof typeof TRANSLATIONS['pt']> = {
+  tv_box: 'deviceTvBox', smart_tv: 'deviceSmartTv', fire_stick: 'deviceFireStick', phone: 'devicePhone', computer: 'deviceComputer', other: 'deviceOther'
+};
+
+const newDevice = (type: DeviceType = 'tv_box'): Device => ({ id: `${Date.now()}${Math.random().toString(36).slice(2, 6)}`, type });
+
+// 12 hex digits in any notation become AA:BB:CC:DD:EE:FF; anything else is kept as typed
+const normalizeMac = (mac: string) => {
+  const hex = mac.replace(/[^0-9a-f]/gi, '').toUpperCase();
+  return hex.length === 12 ? hex.match(/../g)!.join(':') : mac.trim().toUpperCase();
+};
+
+// Matches a name, WhatsApp, panel username or (partial) MAC address in any notation
+const matchesClientSearch = (client: Client, term: string) => {
+  const text = term.trim().toLowerCase();
+  if (!text) return true;
+  if (client.name.toLowerCase().includes(text) || client.whatsapp.includes(text)) return true;
+  if (client.subscriptions.some(s => s.username?.toLowerCase().includes(text))) return true;
+  const hex = text.replace(/[:\-. ]/g, '');
+  return /^[0-9a-f]{4,12}$/.test(hex) && client.subscriptions.some(s => s.devices?.some(d => d.mac?.replace(/:/g, '').toLowerCase().includes(hex)));
+};
+
+// --- Suppliers ---
+
+const SUPPLIER_MOVEMENT_LABELS: Record<SupplierMovement['type'], keyof typeof TRANSLATIONS['pt']> = {
+  purchase: 'creditPurchase', activation: 'creditActivation', adjustment: 'creditAdjustment'
+};
+
+// One credit activates one month of a line; day periods round to whole months, at least one
+const getPeriodCredits = (period: PlanPeriod) =>
+  period.unit === 'months' ? period.length : Math.max(1, Math.round(period.length / 30));
+
+const getSupplierBalance = (supplier: Supplier) => supplier.movements.reduce((sum, m) => sum + m.credits, 0);
+
+const newSupplierMovement = (type: SupplierMovement['type'], credits: number, extra: Partial<Omit<SupplierMovement, 'type' | 'credits'>> = {}): SupplierMovement => ({
+  id: `${Date.now()}${Math.random().toString(36).slice(2, 6)}`,
+  date: new Date().toISOString(),
+  type,
+  credits,
+  cost: 0,
+  ...extra
+});
+
+// Renewal revenue against the credits they consumed, for activations since `from`
+const getSupplierProfitability = (supplier: Supplier, from: Date) => {
+  const activations = supplier.movements.filter(m => m.type === 'activation' && new Date(m.date) >= from);
+  const revenue = roundMoney(activations.reduce((sum, m) => sum + (m.revenue || 0), 0));
+  const cost = roundMoney(activations.reduce((sum, m) => sum + m.cost, 0));
+  return { activations: activations.length, credits: -activations.reduce((sum, m) => sum + m.credits, 0), revenue, cost, profit: roundMoney(revenue - cost) };
+};
+
+// --- Pix ---
+
+const PIX_KEY_TYPE_LABELS: Record<Settings['pixKeyType'], keyof typeof TRANSLATIONS['pt']> = {
+  cpf: 'pixKeyCpf', cnpj: 'pixKeyCnpj', email: 'pixKeyEmail', phone: 'pixKeyPhone', random: 'pixKeyRandom'
+};
+
+// The last BR Code sent is reused while the amount is the same and nothing was paid since
+const getOpenPixCharge = (client: Client, amount: number) => {
+  const last = client.pixCharges?.[client.pixCharges.length - 1];
+  if (!last || last.amount !== roundMoney(amount)) return undefined;
+  const paidSince = client.ledger.some(e => (e.type === 'payment' || e.type === 'partial_payment') && e.date > last.createdAt);
+  return paidSince ? undefined : last;
+};
+
+// --- Ledger ---
+
+// Charges and refunds raise what the client owes; everything else settles it.
+const LEDGER_SIGN: Record<LedgerEntryType, 1 | -1> = {
+  charge: 1, refund: 1, payment: -1, partial_payment: -1, discount: -1, write_off: -1
+};
+
+const LEDGER_TYPE_LABELS: Record<LedgerEntryType, keyof typeof TRANSLATIONS['pt']> = {
+  charge: 'ledgerCharge', payment: 'ledgerPayment', partial_payment: 'ledgerPartialPayment',
+  discount: 'ledgerDiscount', refund: 'ledgerRefund', write_off: 'ledgerWriteOff'
+};
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, keyof typeof TRANSLATIONS['pt']> = {
+  pix: 'methodPix', cash: 'methodCash', transfer: 'methodTransfer'
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Positive = client owes us, negative = client has credit
+const getLedgerBalance = (ledger: LedgerEntry[] = []) =>
+  roundMoney(ledger.reduce((sum, e) => sum + LEDGER_SIGN[e.type] * e.amount, 0));
+
+const newLedgerEntry = (type: LedgerEntryType, amount: number, extra: Partial<Omit<LedgerEntry, 'type' | 'amount'>> = {}): LedgerEntry => ({
+  id: `${Date.now()}${Math.random().toString(36).slice(2, 6)}`,
+  date: new Date().toISOString(),
+  type,
+  amount: roundMoney(Math.abs(amount)),
+  ...extra
+});
+
+// amountOwed and paymentStatus are caches of the ledger balance and are only written here
+const withLedger = (client: Client, ledger: LedgerEntry[]): Client => {
+  const balance = getLedgerBalance(ledger);
+  return { ...client, ledger, amountOwed: Math.max(0, balance), paymentStatus: balance > 0 ? 'pending' : 'paid' };
+};
+
+// --- Receipts ---
+
+type Translate = (key: keyof typeof TRANSLATIONS['pt'], params?: Record<string, any>) => string;
+
+interface Receipt {
+  number: number;
+  date: string; // ISO String
+  amount: number;
+  method?: PaymentMethod;
+  reference?: string;
+  companyName: string;
+  document: string;
+  logo: string;
+  clientName: string;
+  planName: string;
+  periodStart?: string;
+  periodEnd?: string;
+  validUntil: string; // Client dueDate when no charge period is known
+  chargeAmount?: number; // Gross price of the period, listed only when discounts apply
+  discounts: { description: string; amount: number }[];
+}
+
+// The period is taken from the latest charge recorded before the payment
+const buildReceipt = (data: AppData, client: Client, entry: LedgerEntry): Receipt => {
+  const index = client.ledger.findIndex(e => e.id === entry.id);
+  const charge = client.ledger.slice(0, index).reverse().find(e => e.type === 'charge' && e.periodEnd);
+  const discounts = charge ? client.ledger.slice(client.ledger.indexOf(charge) + 1, index).filter(e => e.type === 'discount') : [];
+  return {
+    number: entry.receiptNumber || 0,
+    date: entry.date,
+    amount: entry.amount,
+    method: entry.method,
+    reference: entry.reference,
+    companyName: data.settings.companyName,
+    document: data.settings.document,
+    logo: data.settings.profileImage,
+    clientName: client.name,
+    planName: data.plans.find(p => p.id === (client.subscriptions.find(s => s.id === charge?.subscriptionId)?.planId ?? client.planId))?.name || '',
+    periodStart: charge?.periodStart,
+    periodEnd: charge?.periodEnd,
+    validUntil: client.dueDate,
+    chargeAmount: charge?.amount,
+    discounts: discounts.map(d => ({ description: d.description || '', amount: d.amount }))
+  };
+};
+
+const receiptPeriod = (r: Receipt, t: Translate) => r.periodEnd
+  ? `${t('periodCovered')}: ${r.periodStart ? `${parseLocalDate(r.periodStart).toLocaleDateString()} - ` : ''}${parseLocalDate(r.periodEnd).toLocaleDateString()}`
+  : `${t('validUntil')}: ${parseLocalDate(r.validUntil).toLocaleDateString()}`;
+
+const receiptText = (r: Receipt, t: Translate) => [
+  `*${t('receiptTitle')}* - ${t('receiptNumber', { number: r.number })}`,
+  r.companyName + (r.document ? ` (${r.document})` : ''),
+  '',
+  `${t('receivedFrom')} ${r.clientName} ${t('theAmountOf')} *R$ ${r.amount.toFixed(2)}*`,
+  `${t('referringTo')}: ${r.planName}`,
+  receiptPeriod(r, t),
+  ...(r.discounts.length && r.chargeAmount ? [
+    `${t('planValue')}: R$ ${r.chargeAmount.toFixed(2)}`,
+    ...r.discounts.map(d => `${d.description || t('ledgerDiscount')}: - R$ ${d.amount.toFixed(2)}`)
+  ] : []),
+  ...(r.method ? [`${t('paymentMethod')}: ${t(PAYMENT_METHOD_LABELS[r.method])}${r.reference ? ` (${r.reference})` : ''}`] : []),
+  `${t('issuedAt')}: ${new Date(r.date).toLocaleDateString()}`
+].join('\n');
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+// Standalone page with inline styles so it prints the same from the modal iframe or a saved PDF
+const receiptHtml = (r: Receipt, t: Translate) => `<!DOCTYPE html>
+<html><head><meta charset="UTF-8"><title>${escapeHtml(t('receiptNumber', { number: r.number }))}</title>
+<style>
+  body { font-family: Arial, sans-serif; color: #111827; margin: 24px; }
+  .box { border: 2px solid #003366; border-radius: 8px; padding: 24px; max-width: 560px; margin: 0 auto; }
+  .head { display: flex; align-items: center; gap: 16px; border-bottom: 1px solid #e5e7eb; padding-bottom: 16px; margin-bottom: 16px; }
+  .head img { width: 64px; height: 64px; object-fit: cover; border-radius: 8px; }
+  h1 { font-size: 20px; color: #003366; margin: 0; }
+  .muted { color: #6b7280; font-size: 13px; }
+  .amount { font-size: 28px; font-weight: bold; color: #15803d; margin: 16px 0; }
+  p { margin: 6px 0; }
+  .discount { color: #15803d; }
+  .sign { margin-top: 48px; border-top: 1px solid #111827; width: 60%; margin-left: auto; margin-right: auto; text-align: center; padding-top: 4px; }
+</style></head><body><div class="box">
+  <div class="head">
+    ${r.logo ? `<img src="${escapeHtml(r.logo)}" alt="">` : ''}
+    <div><h1>${escapeHtml(r.companyName)}</h1>${r.document ? `<div class="muted">${escapeHtml(r.document)}</div>` : ''}</div>
+  </div>
+  <p><strong>${escapeHtml(t('receiptTitle'))}</strong> <span class="muted">${escapeHtml(t('receiptNumber', { number: r.number }))}</span></p>
+  <p>${escapeHtml(t('receivedFrom'))} <strong>${escapeHtml(r.clientName)}</strong> ${escapeHtml(t('theAmountOf'))}:</p>
+  <div class="amount">R$ ${r.amount.toFixed(2)}</div>
+  <p>${escapeHtml(t('referringTo'))}: <strong>${escapeHtml(r.planName)}</strong></p>
+  <p>${escapeHtml(receiptPeriod(r, t))}</p>
+  ${r.discounts.length && r.chargeAmount ? `<p>${escapeHtml(t('planValue'))}: R$ ${r.chargeAmount.toFixed(2)}</p>
+  ${r.discounts.map(d => `<p class="discount">${escapeHtml(d.description || t('ledgerDiscount'))}: - R$ ${d.amount.toFixed(2)}</p>`).join('')}` : ''}
+  ${r.method ? `<p>${escapeHtml(t('paymentMethod'))}: ${escapeHtml(t(PAYMENT_METHOD_LABELS[r.method]))}${r.reference ? ` <span class="muted">(${escapeHtml(r.reference)})</span>` : ''}</p>` : ''}
+  <p class="muted">${escapeHtml(t('issuedAt'))}: ${new Date(r.date).toLocaleString()}</p>
+  <div class="sign">${escapeHtml(r.companyName)}</div>
+</div></body></html>`;
+
+// --- Discounts ---
+
+const normalizeCouponCode = (code: string) => code.trim().toUpperCase().replace(/\s+/g, '');
+
+// Why a coupon cannot be applied on `date`, or null when it can
+const getCouponError = (coupon: Coupon | undefined, date = toDateStr(new Date())): keyof typeof TRANSLATIONS['pt'] | null => {
+  if (!coupon) return 'couponNotFound';
+  if (coupon.validFrom && date < coupon.validFrom) return 'couponNotStarted';
+  if (coupon.validUntil && date > coupon.validUntil) return 'couponExpired';
+  if (coupon.maxUses && coupon.uses >= coupon.maxUses) return 'couponExhausted';
+  return null;
+};
+
+const formatDiscount = (d: Pick<RenewalDiscount, 'kind' | 'value'>) =>
+  d.kind === 'percent' ? `${d.value}%` : `R$ ${d.value.toFixed(2)}`;
+
+const describeDiscount = (d: RenewalDiscount, t: Translate) =>
+  d.reason === 'coupon' ? t('couponDiscount', { code: d.source || '' })
+  : d.reason === 'referral' ? t('referralDiscount', { name: d.source || '' })
+  : t('birthdayType');
+
+// Percent discounts are taken from the gross price, fixed ones after them; the total never goes below zero
+const applyRenewalDiscounts = (amount: number, discounts: RenewalDiscount[] = []) => {
+  let total = amount;
+  const applied = [...discounts]
+    .sort((a, b) => (a.kind === 'percent' ? 0 : 1) - (b.kind === 'percent' ? 0 : 1))
+    .map(discount => {
+      const value = roundMoney(Math.min(total, discount.kind === 'percent' ? amount * discount.value / 100 : discount.value));
+      total = roundMoney(total - value);
+      return { discount, value };
+    })
+    .filter(a => a.value > 0);
+  return { total, applied };
+};
+
+// The latest charge before `index` and the discounts recorded against it (see handleRenew)
+const getChargeBreakdown = (ledger: LedgerEntry[], index = ledger.length) => {
+  const chargeIndex = ledger.slice(0, index).map(e => e.type).lastIndexOf('charge');
+  if (chargeIndex < 0) return null;
+  return { charge: ledger[chargeIndex], discounts: ledger.slice(chargeIndex + 1, index).filter(e => e.type === 'discount') };
+};
+
+// --- Bank Reconciliation ---
+
+interface BankCredit {
+  id: string; // FITID, or a fingerprint of the line when the bank gives none
+  date: string; // YYYY-MM-DD
+  amount: number;
+  name: string; // Payer as written by the bank
+  memo: string;
+}
+
+// OFX 1.x is SGML: closing tags are optional, so each value ends at the next tag or line break
+const parseOfx = (text: string): BankCredit[] => {
+  const tag = (block: string, name: string) => (block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'))?.[1] || '').trim();
+  return (text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [])
+    .map(block => {
+      const posted = tag(block, 'DTPOSTED');
+      const date = posted.length >= 8 ? `${posted.substring(0, 4)}-${posted.substring(4, 6)}-${posted.substring(6, 8)}` : '';
+      const amount = parseFloat(tag(block, 'TRNAMT').replace(',', '.'));
+      const name = tag(block, 'NAME'), memo = tag(block, 'MEMO');
+      return { id: tag(block, 'FITID') || `${date}|${amount}|${name}|${memo}`, date, amount, name, memo };
+    })
+    .filter(c => c.amount > 0);
+};
+
+const BANK_CSV_ALIASES: Record<'date' | 'amount' | 'name' | 'memo' | 'id', string[]> = {
+  date: ['data', 'date', 'datalancamento', 'datamovimento', 'dtposted'],
+  amount: ['valor', 'amount', 'credito', 'valorrs', 'trnamt'],
+  name: ['nome', 'pagador', 'remetente', 'name', 'payer', 'origem'],
+  memo: ['descricao', 'historico', 'memo', 'description', 'detalhes', 'lancamento'],
+  id: ['id', 'fitid', 'identificador', 'documento', 'autenticacao']
+};
+
+// Bank exports differ in column names, so the header row is required and matched by alias
+const parseBankCsv = (text: string): BankCredit[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const normalized = header.map(normalizeHeader);
+  const col = (field: keyof typeof BANK_CSV_ALIASES) => normalized.findIndex(h => BANK_CSV_ALIASES[field].includes(h));
+  const [dateCol, amountCol, nameCol, memoCol, idCol] = (['date', 'amount', 'name', 'memo', 'id'] as const).map(col);
+  if (dateCol < 0 || amountCol < 0) return [];
+  return rows
+    .map(r => {
+      const date = parseCsvDate(r[dateCol] || '') || '';
+      const amount = parseCsvAmount(r[amountCol] || '') ?? 0;
+      const name = nameCol >= 0 ? (r[nameCol] || '').trim() : '';
+      const memo = memoCol >= 0 ? (r[memoCol] || '').trim() : '';
+      return { id: (idCol >= 0 && r[idCol]?.trim()) || `${date}|${amount}|${name}|${memo}`, date, amount, name, memo };
+    })
+    .filter(c => c.amount > 0 && c.date);
+};
+
+const parseBankStatement = (text: string) => /<OFX>/i.test(text) ? parseOfx(text) : parseBankCsv(text);
+
+interface BankMatch {
+  credit: BankCredit;
+  clientId: string; // '' = no proposal
+  reasons: ('txid' | 'amount' | 'name')[];
+  suggestion: boolean; // proposed on amount or name alone, left for the user to check
+  alreadyImported: boolean;
+}
+
+const nameTokens = (name: string) => name.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').split(/[^a-z0-9]+/).filter(w => w.length > 2);
+
+// Scores every pending client: a txid from one of our BR Codes wins outright; otherwise the
+// open amount and the payer name have to agree well enough to be worth proposing. Only a txid,
+// or amount and name together, is trusted; anything else is just a suggestion.
+const matchBankCredits = (credits: BankCredit[], clients: Client[]): BankMatch[] => {
+  const pending = clients.filter(c => c.paymentStatus === 'pending');
+  const imported = new Set(clients.flatMap(c => c.ledger.map(e => e.reference)).filter(Boolean));
+  return credits.map(credit => {
+    const text = `${credit.name} ${credit.memo}`.toUpperCase();
+    const payer = new Set(nameTokens(`${credit.name} ${credit.memo}`));
+    let best: { clientId: string; score: number; reasons: BankMatch['reasons'] } = { clientId: '', score: 0, reasons: [] };
+    pending.forEach(c => {
+      const reasons: BankMatch['reasons'] = [];
+      let score = 0;
+      if ((c.pixCharges || []).some(pc => text.includes(pc.txid))) { score += 100; reasons.push('txid'); }
+      if (Math.abs((c.amountOwed || 0) - credit.amount) < 0.01) {
+        const sameAmount = pending.filter(o => Math.abs((o.amountOwed || 0) - credit.amount) < 0.01).length;
+        score += sameAmount === 1 ? 55 : 40;
+        reasons.push('amount');
+      }
+      const tokens = nameTokens(c.name);
+      const hits = tokens.filter(w => payer.has(w)).length;
+      if (tokens.length && hits) { score += Math.round(50 * hits / tokens.length); reasons.push('name'); }
+      if (score > best.score) best = { clientId: c.id, score, reasons };
+    });
+    const proposed = best.score >= 50;
+    return {
+      credit,
+      clientId: proposed ? best.clientId : '',
+      reasons: proposed ? best.reasons : [],
+      suggestion: proposed && !best.reasons.includes('txid') && !(best.reasons.includes('amount') && best.reasons.includes('name')),
+      alreadyImported: imported.has(credit.id)
+    };
+  });
+};
+
+// --- Message Templates ---
+
+const TEMPLATE_PLACEHOLDERS = ['nome', 'data', 'valor', 'plano', 'pix', 'pix_copia_cola', 'dias', 'empresa', 'hora', 'usuario', 'senha', 'url', 'mac'] as const;
+
+type TemplateVars = Record<typeof TEMPLATE_PLACEHOLDERS[number], string>;
+
+// Pending clients are charged what they owe; paid ones are reminded of the plan price.
+const getClientChargeAmount = (client: Client, plans: Plan[]) => {
+  const planPrice = getClientRecurringPrice(client, plans);
+  return client.paymentStatus === 'pending' ? (client.amountOwed ?? planPrice) : planPrice;
+};
+
+// Line fields (plano, data, hora, usuario...) come from `subscription`, by default the line the client-level fields mirror
+const buildTemplateVars = (client: Client, data: AppData, subscription = getPrimarySubscription(client.subscriptions)): TemplateVars => {
+  const { settings } = data;
+  const today = new Date(); today.setHours(0,0,0,0);
+  const amount = getClientChargeAmount(client, data.plans);
+  const days = Math.ceil((parseLocalDate(subscription.dueDate).getTime() - today.getTime()) / 86400000);
+  return {
+    nome: client.name,
+    data: parseLocalDate(subscription.dueDate).toLocaleDateString(),
+    valor: `R$ ${amount.toFixed(2)}`,
+    plano: data.plans.find(p => p.id === subscription.planId)?.name || '',
+    pix: settings.pixKey || '',
+    pix_copia_cola: settings.pixKey && amount > 0 ? generatePix(settings, amount, getOpenPixCharge(client, amount)?.txid) : '',
+    dias: String(Math.abs(days)),
+    empresa: settings.companyName || '',
+    hora: subscription.dueTime || '',
+    usuario: subscription.username || '',
+    senha: subscription.password || '',
+    url: subscription.serverUrl || '',
+    mac: (subscription.devices || []).map(d => d.mac).filter(Boolean).join(', ')
+  };
+};
+
+// Supports {placeholder}, {#placeholder}shown when filled{/placeholder} and
+// {^placeholder}shown when empty{/placeholder}. Unknown placeholders are kept as typed.
+const renderTemplate = (content: string, vars: Record<string, string>) => {
+  const section = /\{([#^])(\w+)\}([\s\S]*?)\{\/\2\}/g;
+  let text = content, previous;
+  do {
+    previous = text;
+    text = text.replace(section, (_, mode, key, inner) => (mode === '#') === Boolean(vars[key]) ? inner : '');
+  } while (text !== previous);
+  return text.replace(/\{(\w+)\}/g, (match, key) => key in vars ? vars[key] : match);
+};
+
+const renderTemplateForClient = (template: MessageTemplate, client: Client, data: AppData, subscription?: Subscription) =>
+  renderTemplate(template.content, buildTemplateVars(client, data, subscription));
+
+const TEMPLATE_TYPE_LABELS: Record<MessageTemplate['type'], keyof typeof TRANSLATIONS['pt']> = {
+  general: 'generalType',
+  renewal: 'renewalType',
+  due_soon: 'dueSoonType',
+  overdue: 'overdueType',
+  blocked: 'blockedType',
+  gratitude: 'gratitudeType',
+  support_solved: 'supportSolvedType',
+  birthday: 'birthdayType',
+  client_birthday: 'clientBirthdayType',
+  contract_anniversary: 'contractAnniversaryType',
+  offer: 'offerType',
+  black_friday: 'blackFridayType',
+  plans: 'plansType',
+  combo: 'comboType',
+  discount: 'discountType',
+  access_data: 'accessDataType'
+};
+
+// Template types that fit each situation, best match first
+const CONTEXT_TEMPLATE_TYPES: Record<MessageContext, MessageTemplate['type'][]> = {
+  birthday: ['client_birthday', 'birthday'],
+  overdue: ['overdue', 'blocked', 'renewal'],
+  due_today: ['renewal', 'due_soon'],
+  due_soon: ['due_soon', 'renewal'],
+  paid: ['gratitude', 'contract_anniversary', 'support_solved'],
+  general: ['general', 'offer', 'plans', 'combo', 'discount', 'black_friday']
+};
+
+const getClientMessageContexts = (client: Client, settings: Settings): MessageContext[] => {
+  const today = new Date(); today.setHours(0,0,0,0);
+  const contexts: MessageContext[] = [];
+  if (client.birthDate && getNextBirthday(client.birthDate, today).getTime() === today.getTime()) {
+    contexts.push('birthday');
   }
-  let hex = (crc & 0xFFFF).toString(16).toUpperCase();
-  if (hex.length < 4) hex = "0".repeat(4 - hex.length) + hex;
-  return hex;
+  const diff = Math.ceil((parseLocalDate(client.dueDate).getTime() - today.getTime()) / 86400000);
+  if (diff < 0) contexts.push('overdue');
+  else if (diff === 0) contexts.push('due_today');
+  else if (diff <= Math.max(settings.dashboardAlertDays || 0, settings.dashboardUrgentDays || 0, 3)) contexts.push('due_soon');
+  else if (client.paymentStatus === 'paid') contexts.push('paid');
+  contexts.push('general');
+  return contexts;
+};
+
+const MESSAGE_CONTEXT_LABELS: Record<MessageLogEntry['context'], keyof typeof TRANSLATIONS['pt']> = {
+  birthday: 'birthdayToday',
+  overdue: 'overdue',
+  due_today: 'dueTodayStatus',
+  due_soon: 'dueSoon',
+  paid: 'paid',
+  general: 'contextGeneral',
+  charge: 'contextCharge',
+  campaign: 'contextCampaign',
+  receipt: 'contextReceipt',
+  access: 'contextAccess'
+};
+
+// "Lembrado há 2 dias" style hint from the client's latest logged message
+const getLastMessageHint = (client: Client, t: (key: keyof typeof TRANSLATIONS['pt'], params?: Record<string, any>) => string) => {
+  const last = client.messageLog?.[client.messageLog.length - 1];
+  if (!last) return '';
+  const today = new Date(); today.setHours(0,0,0,0);
+  const sentDay = new Date(last.date); sentDay.setHours(0,0,0,0);
+  const days = Math.round((today.getTime() - sentDay.getTime()) / 86400000);
+  return days <= 0 ? t('remindedToday') : days === 1 ? t('remindedYesterday') : t('remindedDaysAgo', { days });
+};
+
+const filterClientsBySegment = (clients: Client[], segment: CampaignSegment) => {
+  const today = new Date(); today.setHours(0,0,0,0);
+  return clients.filter(c => {
+    if (segment.planId !== 'all' && !getActiveSubscriptions(c).some(s => s.planId === segment.planId)) return false;
+    if (segment.paymentStatus !== 'all' && c.paymentStatus !== segment.paymentStatus) return false;
+    if (segment.minOverdueDays) {
+      const overdueDays = Math.floor((today.getTime() - parseLocalDate(c.dueDate).getTime()) / 86400000);
+      if (overdueDays < segment.minOverdueDays) return false;
+    }
+    if (segment.birthdayMonth && (!c.birthDate || Number(c.birthDate.split('-')[1]) !== segment.birthdayMonth)) return false;
+    return true;
+  });
+};
+
+// --- Reminder Rules ---
+
+const getReminderContext = (rule: ReminderRule): MessageContext => rule.offsetDays < 0 ? 'due_soon' : rule.offsetDays === 0 ? 'due_today' : 'overdue';
+
+const resolveReminderTemplate = (rule: ReminderRule, templates: MessageTemplate[]) =>
+  templates.find(m => m.id === rule.templateId) ||
+  templates.find(m => m.type === rule.templateType) ||
+  CONTEXT_TEMPLATE_TYPES[getReminderContext(rule)].map(type => templates.find(m => m.type === type)).find(Boolean);
+
+const describeReminderRule = (rule: ReminderRule, t: (key: keyof typeof TRANSLATIONS['pt'], params?: Record<string, any>) => string) =>
+  rule.offsetDays < 0 ? t('ruleDaysBefore', { days: -rule.offsetDays }) : rule.offsetDays === 0 ? t('ruleOnDay') : t('ruleDaysAfter', { days: rule.offsetDays });
+
+interface PendingReminder {
+  client: Client;
+  rule: ReminderRule;
+  template: MessageTemplate;
+  key: string;
+}
+
+// For each client only the most recent rule already reached for the current
+// dueDate counts, so a client 6 days overdue gets the "5 days" rule and not the
+// "3 days before" one. Keys in the message log stop a rule from firing twice.
+const getPendingReminders = (data: AppData): PendingReminder[] => {
+  const today = new Date(); today.setHours(0,0,0,0);
+  const rules = (data.settings.reminderRules || []).filter(r => r.enabled).sort((a, b) => b.offsetDays - a.offsetDays);
+  const pending: PendingReminder[] = [];
+  data.clients.forEach(client => {
+    const daysFromDue = Math.round((today.getTime() - parseLocalDate(client.dueDate).getTime()) / 86400000);
+    const rule = rules.find(r => r.offsetDays <= daysFromDue);
+    if (!rule) return;
+    const key = `${rule.id}:${client.dueDate}`;
+    if (client.messageLog?.some(m => m.reminderKey === key)) return;
+    const template = resolveReminderTemplate(rule, data.messageTemplates);
+    if (template) pending.push({ client, rule, template, key });
+  });
+  return pending.sort((a, b) => b.rule.offsetDays - a.rule.offsetDays);
+};
+
+const rankTemplates = (templates: MessageTemplate[], contexts: MessageContext[]) => {
+  const preferred = contexts.flatMap(c => CONTEXT_TEMPLATE_TYPES[c]);
+  const rank = (tpl: MessageTemplate) => preferred.indexOf(tpl.type);
+  const suggested = templates.filter(tpl => rank(tpl) >= 0 && !CONTEXT_TEMPLATE_TYPES.general.includes(tpl.type)).sort((a, b) => rank(a) - rank(b));
+  return { suggested, others: templates.filter(tpl => !suggested.includes(tpl)) };
+};
+
+// --- Accounts Payable ---
+
+const RECURRENCE_LABELS: Record<AccountRecurrence, keyof typeof TRANSLATIONS['pt']> = {
+  weekly: 'recurrenceWeekly', monthly: 'recurrenceMonthly', yearly: 'recurrenceYearly'
+};
+
+const newInstallment = (number: number, value: number, dueDate: string): AccountInstallment => ({
+  id: `${Date.now()}${number}${Math.random().toString(36).slice(2, 6)}`,
+  number, value: roundMoney(value), originalValue: roundMoney(value), dueDate, status: 'pending', payments: []
+});
+
+// A recurring account always keeps one open installment: once none is pending the next period's bill is added
+const rollRecurringAccount = (acc: AccountPayable): AccountPayable => {
+  if (!acc.recurrence || acc.installments.some(i => i.status === 'pending')) return acc;
+  const last = acc.installments[acc.installments.length - 1];
+  const number = (last?.number || 0) + 1;
+  const next = newInstallment(number, acc.totalValue, last ? getScheduledDueDate(acc, acc.scheduleAnchor || { date: last.dueDate, number: last.number }, number) : toDateStr(new Date()));
+  return { ...acc, installments: [...acc.installments, next], installmentsCount: acc.installments.length + 1 };
+};
+
+// Payments reduce the principal first. The late fee is charged on what was still unpaid at dueDate and
+// the daily interest on what was still unpaid each day, from the day after dueDate until the installment is paid.
+const getInstallmentCharges = (acc: AccountPayable, inst: AccountInstallment, today = new Date()) => {
+  const until = inst.status === 'paid' && inst.paidDate ? inst.paidDate : toDateStr(today);
+  const daysLate = Math.max(0, daysBetween(inst.dueDate, until));
+  const principalOn = (date: string) => Math.max(0, inst.value - inst.payments.filter(p => p.date <= date).reduce((sum, p) => sum + p.amount, 0));
+  const lateFee = daysLate > 0 ? roundMoney(principalOn(inst.dueDate) * (acc.lateFeePercent || 0) / 100) : 0;
+  // Each stretch between payment dates accrues on the principal left at its start
+  const stops = [inst.dueDate, ...inst.payments.map(p => p.date).filter(d => d > inst.dueDate && d < until).sort(), until];
+  const interest = daysLate > 0 ? roundMoney(stops.slice(1).reduce((sum, d, i) => sum + principalOn(stops[i]) * (acc.dailyInterestPercent || 0) / 100 * daysBetween(stops[i], d), 0)) : 0;
+  const paid = roundMoney(inst.payments.reduce((sum, p) => sum + p.amount, 0));
+  return { daysLate, lateFee, interest, paid, balance: Math.max(0, roundMoney(inst.value + lateFee + interest - paid)) };
+};
+
+// Logs the payment and settles the installment once nothing is left, rolling recurring accounts forward
+const payInstallment = (acc: AccountPayable, instId: string, amount: number, details: Pick<InstallmentPayment, 'method' | 'reference'> = {}, today = new Date()): AccountPayable => {
+  const date = toDateStr(today);
+  const installments = acc.installments.map(inst => {
+    if (inst.id !== instId) return inst;
+    const paying = { ...inst, payments: [...inst.payments, { id: Date.now().toString(), date, amount: roundMoney(amount), ...details }] };
+    return getInstallmentCharges(acc, paying, today).balance > 0 ? paying : { ...paying, status: 'paid' as const, paidDate: date };
+  });
+  return rollRecurringAccount({ ...acc, installments });
 };
 
-const generatePix = (key: string, name: string, city: string = 'BRASIL', amount: number, txId: string = '***') => {
-  const formatField = (id: string, value: string) => {
-    const len = value.length.toString().padStart(2, '0');
-    return `${id}${len}${value}`;
+// Moves an installment to `dueDate`; with `shiftFollowing` the schedule is re-anchored there and the open installments after it follow
+const rescheduleInstallment = (acc: AccountPayable, instId: string, dueDate: string, shiftFollowing: boolean): AccountPayable => {
+  const from = acc.installments.find(i => i.id === instId);
+  if (!from) return acc;
+  const anchor = { date: dueDate, number: from.number };
+  return {
+    ...acc,
+    scheduleAnchor: shiftFollowing ? anchor : acc.scheduleAnchor,
+    installments: acc.installments.map(inst => {
+      if (inst.id === instId) return { ...inst, dueDate };
+      if (!shiftFollowing || inst.number < from.number || inst.status === 'paid') return inst;
+      return { ...inst, dueDate: getScheduledDueDate(acc, anchor, inst.number) };
+    })
   };
+};
+
+// --- Analytics ---
 
-  const payload = [
-    formatField('00', '01'), 
-    formatField('26', `0014br.gov.bcb.pix01${key.length.toString().padStart(2, '0')}${key}`), 
-    formatField('52', '0000'), 
-    formatField('53', '986'), 
-    formatField('54', amount.toFixed(2)), 
-    formatField('58', 'BR'), 
-    formatField('59', name.substring(0, 25).toUpperCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "")), 
-    formatField('60', city.substring(0, 15).toUpperCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "")), 
-    formatField('62', formatField('05', txId)) 
-  ].join('');
+const monthKey = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
 
-  const crcPayload = `${payload}6304`;
-  const crc = crc16ccitt(crcPayload);
-  return `${crcPayload}${crc}`;
+interface MonthlyStats {
+  key: string; // YYYY-MM
+  label: string;
+  revenue: number;
+  expenses: number;
+  profit: number;
+  payments: number;
+  newClients: number;
+  churned: number;
+}
+
+// Paid installments count what actually left the cash, late charges included; open ones their principal
+const installmentAmount = (inst: AccountInstallment) =>
+  inst.status === 'paid' ? roundMoney(inst.payments.reduce((sum, p) => sum + p.amount, 0)) : inst.value;
+
+// A client churns when the last of their active lines expired and none was renewed; undefined while a line still runs
+const getChurnDate = (client: Client, today: Date) => {
+  const lines = getActiveSubscriptions(client);
+  if (!lines.length || client.subscriptions.some(s => parseLocalDate(s.dueDate) >= today)) return undefined;
+  return parseLocalDate(lines.map(s => s.dueDate).sort()[lines.length - 1]);
+};
+
+const buildMonthlyStats = (data: AppData, from: Date, to: Date): MonthlyStats[] => {
+  const months: MonthlyStats[] = [];
+  for (let d = new Date(from.getFullYear(), from.getMonth(), 1); d <= to; d.setMonth(d.getMonth() + 1)) {
+    months.push({ key: monthKey(d), label: d.toLocaleString(data.settings.language || 'pt', { month: 'short', year: '2-digit' }), revenue: 0, expenses: 0, profit: 0, payments: 0, newClients: 0, churned: 0 });
+  }
+  const byKey = new Map(months.map(m => [m.key, m]));
+  const today = new Date(); today.setHours(0,0,0,0);
+
+  data.clients.forEach(c => {
+    c.ledger.forEach(e => {
+      if (e.type !== 'payment' && e.type !== 'partial_payment' && e.type !== 'refund') return;
+      const m = byKey.get(monthKey(new Date(e.date)));
+      if (!m) return;
+      if (e.type === 'refund') m.revenue -= e.amount;
+      else { m.revenue += e.amount; m.payments++; }
+    });
+    if (c.createdAt) {
+      const m = byKey.get(monthKey(parseLocalDate(c.createdAt)));
+      if (m) m.newClients++;
+    }
+    const churnedOn = getChurnDate(c, today);
+    if (churnedOn) {
+      const m = byKey.get(monthKey(churnedOn));
+      if (m) m.churned++;
+    }
+  });
+
+  data.accountsPayable.forEach(acc => acc.installments.forEach(inst => {
+    const m = byKey.get(monthKey(parseLocalDate(inst.paidDate || inst.dueDate)));
+    if (m) m.expenses += installmentAmount(inst);
+  }));
+
+  months.forEach(m => { m.profit = m.revenue - m.expenses; });
+  return months;
 };
 
 // --- Context ---
 
 const INITIAL_DATA: AppData = {
+  schemaVersion: SCHEMA_VERSION,
   clients: [],
   plans: [],
   accountsPayable: [],
@@ -72,21 +772,217 @@ const INITIAL_DATA: AppData = {
     dashboardUrgentDays: 3,
     dashboardShowBirthdays: true,
     dashboardBirthdayDays: 0,
+    birthdayDiscountPercent: 0,
+    referralCredit: 0,
     dashboardShowAccounts: true,
     dashboardAccountsDays: 1,
     dashboardShowPaymentMonitoring: true,
     pixName: '',
     pixKeyType: 'email',
     pixKey: '',
+    pixCity: 'BRASIL',
     language: 'pt',
-    installDate: new Date().toISOString()
+    installDate: new Date().toISOString(),
+    reminderRules: DEFAULT_REMINDER_RULES
   },
   license: {
     isActive: false,
     expirationDate: new Date().toISOString(),
     usedKeys: []
   },
-  messageTemplates: DEFAULT_TEMPLATES
+  messageTemplates: DEFAULT_TEMPLATES,
+  campaigns: [],
+  coupons: [],
+  suppliers: []
+};
+
+// --- Persistence & Migrations ---
+
+// MIGRATIONS[n] upgrades data saved with schemaVersion n to n + 1.
+// Never edit a released step: append a new one and bump SCHEMA_VERSION.
+// Steps write the shape of their own version, so they inline defaults instead of reading
+// INITIAL_DATA, DEFAULT_TEMPLATES or cache helpers like withLedger, which keep changing.
+const MIGRATIONS: ((data: any) => any)[] = [
+  // v0 -> v1: data saved before versioning existed
+  (data) => ({
+    ...data,
+    clients: data.clients || [],
+    plans: data.plans || [],
+    accountsPayable: data.accountsPayable || [],
+    settings: {
+      companyName: 'Pocket Plan Manager', ownerName: '', document: '', otherInfo: '',
+      profileImage: 'https://picsum.photos/id/1/800/1200', supportImage: '/suporte.PNG',
+      dashboardAlertDays: 3, dashboardShowClientAlerts: true, dashboardUrgentDays: 3,
+      dashboardShowBirthdays: true, dashboardBirthdayDays: 0,
+      dashboardShowAccounts: true, dashboardAccountsDays: 1, dashboardShowPaymentMonitoring: true,
+      pixName: '', pixKeyType: 'email', pixKey: '', language: 'pt',
+      ...data.settings,
+      installDate: data.settings?.installDate || new Date().toISOString()
+    },
+    license: { isActive: false, expirationDate: new Date().toISOString(), usedKeys: [], ...data.license },
+    messageTemplates: data.messageTemplates || [
+      { id: '1', title: 'Aviso de Vencimento', type: 'renewal', content: 'Olá {nome}, sua assinatura IPTV vence em {data}. O valor é {valor}. Vamos renovar?' },
+      { id: '2', title: 'Feliz Aniversário', type: 'birthday', content: 'Parabéns {nome}! A IPTV SUL BR deseja muitas felicidades neste dia especial!' },
+      { id: '3', title: 'Oferta Especial', type: 'offer', content: 'Olá! Temos uma oferta especial para você hoje. Confira nossos novos canais!' }
+    ]
+  }),
+  // v1 -> v2: bulk WhatsApp campaigns
+  (data) => ({ ...data, campaigns: data.campaigns || [] }),
+  // v2 -> v3: reminder rules
+  (data) => ({
+    ...data,
+    settings: {
+      ...data.settings,
+      reminderRules: data.settings.reminderRules || [
+        { id: 'r1', offsetDays: -3, templateType: 'due_soon', enabled: true },
+        { id: 'r2', offsetDays: 0, templateType: 'renewal', enabled: true },
+        { id: 'r3', offsetDays: 5, templateType: 'blocked', enabled: true }
+      ]
+    }
+  }),
+  // v3 -> v4: paymentHistory replaced by a ledger. Each old payment becomes a charge it settled,
+  // and whatever was still owed becomes an open charge on the due date.
+  (data) => ({
+    ...data,
+    clients: data.clients.map(({ paymentHistory, ...c }: any) => {
+      const ledger: LedgerEntry[] = [];
+      (paymentHistory || []).forEach((h: { date: string; amount: number }, i: number) => {
+        ledger.push(
+          { id: `${c.id}h${i}c`, date: h.date, type: 'charge', amount: h.amount, description: 'migrado' },
+          { id: `${c.id}h${i}p`, date: h.date, type: 'payment', amount: h.amount }
+        );
+      });
+      const owed = c.amountOwed ?? data.plans.find((p: Plan) => p.id === c.planId)?.price ?? 0;
+      if (c.paymentStatus === 'pending' && owed > 0) {
+        ledger.push({ id: `${c.id}h${ledger.length}o`, date: parseLocalDate(c.dueDate).toISOString(), type: 'charge', amount: owed, description: 'migrado' });
+      }
+      const balance = roundMoney(ledger.reduce((sum, e) => sum + (e.type === 'charge' ? e.amount : -e.amount), 0));
+      return { ...c, ledger, amountOwed: Math.max(0, balance), paymentStatus: balance > 0 ? 'pending' : 'paid' };
+    })
+  }),
+  // v4 -> v5: plans get a price table; the old price was charged per 30 days
+  (data) => ({
+    ...data,
+    plans: data.plans.map((p: any) => ({
+      ...p,
+      connections: p.connections ?? 1,
+      periods: p.periods || [{ id: `${p.id}m1`, unit: 'months', length: 1, price: p.price }]
+    }))
+  }),
+  // v5 -> v6: plan prices are versioned in priceHistory instead of a single price
+  (data) => ({
+    ...data,
+    plans: data.plans.map(({ price, ...p }: any) => ({ ...p, priceHistory: p.priceHistory || [] }))
+  }),
+  // v6 -> v7: coupons, and a client may hold several renewal discounts at once
+  (data) => ({
+    ...data,
+    coupons: data.coupons || [],
+    clients: data.clients.map(({ nextRenewalDiscount, ...c }: any) => ({
+      ...c,
+      renewalDiscounts: c.renewalDiscounts || (nextRenewalDiscount ? [nextRenewalDiscount] : undefined)
+    }))
+  }),
+  // v7 -> v8: a client's plan becomes a list of subscriptions (lines); the client-level
+  // plan fields already mirror the only line
+  (data) => ({
+    ...data,
+    clients: data.clients.map((c: any) => c.subscriptions ? c : {
+      ...c,
+      subscriptions: [{ id: `${c.id}s1`, planId: c.planId, periodId: c.periodId, priceOverrides: c.priceOverrides, dueDate: c.dueDate, dueTime: c.dueTime, status: 'active' }]
+    })
+  }),
+  // v8 -> v9: the free-text device of a line becomes a device list with MAC addresses;
+  // the access data template is added for users who already have templates
+  (data) => ({
+    ...data,
+    clients: data.clients.map((c: any) => ({
+      ...c,
+      subscriptions: c.subscriptions.map(({ device, ...s }: any) => ({
+        ...s,
+        devices: s.devices || (device ? [{ id: `${s.id}d1`, type: 'other', label: device }] : undefined)
+      }))
+    })),
+    messageTemplates: data.messageTemplates.some((m: MessageTemplate) => m.type === 'access_data')
+      ? data.messageTemplates
+      : [...data.messageTemplates, {
+          id: '4', title: 'Dados de Acesso', type: 'access_data',
+          content: 'Olá {nome}, seguem seus dados de acesso ({plano}):\n\nUsuário: {usuario}\nSenha: {senha}{#url}\nURL: {url}{/url}{#mac}\nMAC: {mac}{/mac}\n\nVencimento: {data}. Qualquer dúvida, estamos à disposição!'
+        }]
+  }),
+  // v9 -> v10: upstream panel suppliers and their credit movements
+  (data) => ({ ...data, suppliers: data.suppliers || [] }),
+  // v10 -> v11: installments keep their principal in value and log payments instead of decrementing it
+  (data) => ({
+    ...data,
+    accountsPayable: data.accountsPayable.map((acc: any) => ({
+      ...acc,
+      installments: acc.installments.map((inst: any) => {
+        const principal = inst.originalValue ?? (acc.recurrence ? acc.totalValue : acc.totalValue / (acc.installments.length || 1));
+        const paid = roundMoney(inst.status === 'paid' ? principal : principal - inst.value);
+        return {
+          ...inst,
+          value: roundMoney(principal),
+          originalValue: roundMoney(principal),
+          payments: paid > 0 ? [{ id: `${inst.id}p1`, date: inst.paidDate || toDateStr(new Date()), amount: paid }] : []
+        };
+      })
+    }))
+  })
+];
+
+const validateData = (data: any): string[] => {
+  const errors: string[] = [];
+  if (!data || typeof data !== 'object') return ['Arquivo não contém dados.'];
+  (['clients', 'plans', 'accountsPayable', 'messageTemplates', 'campaigns', 'coupons', 'suppliers'] as const).forEach(k => {
+    if (!Array.isArray(data[k])) errors.push(`"${k}" deve ser uma lista.`);
+  });
+  if (!data.settings || typeof data.settings !== 'object') errors.push('"settings" ausente.');
+  if (!data.license || typeof data.license !== 'object') errors.push('"license" ausente.');
+  if (errors.length) return errors;
+
+  data.clients.forEach((c: any, i: number) => {
+    if (!c?.id || typeof c.name !== 'string') errors.push(`Cliente #${i + 1} sem id ou nome.`);
+    else if (!Array.isArray(c.ledger)) errors.push(`Cliente "${c.name}" sem extrato.`);
+    else if (!Array.isArray(c.subscriptions) || c.subscriptions.length === 0) errors.push(`Cliente "${c.name}" sem assinaturas.`);
+  });
+  data.plans.forEach((p: any, i: number) => {
+    if (!p?.id || !Array.isArray(p.periods) || p.periods.length === 0) errors.push(`Plano #${i + 1} sem id ou períodos.`);
+    else if (p.periods.some((pp: any) => typeof pp?.price !== 'number')) errors.push(`Plano "${p.name}" com período sem valor.`);
+  });
+  data.accountsPayable.forEach((a: any, i: number) => {
+    if (!a?.id || !Array.isArray(a.installments)) errors.push(`Conta #${i + 1} sem id ou parcelas.`);
+  });
+  return errors;
+};
+
+const migrateData = (raw: any): AppData => {
+  let version = typeof raw?.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  if (version > SCHEMA_VERSION) throw new Error(`Dados da versão ${version} são mais novos que este aplicativo (versão ${SCHEMA_VERSION}).`);
+  let data = raw;
+  while (version < SCHEMA_VERSION) {
+    data = MIGRATIONS[version](data);
+    version++;
+  }
+  const errors = validateData(data);
+  if (errors.length) throw new Error(errors.join('\n'));
+  return { ...data, schemaVersion: SCHEMA_VERSION };
+};
+
+const createBackup = (data: AppData): BackupFile => ({
+  app: BACKUP_APP_ID,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  data
+});
+
+// Accepts our backup envelope or a raw copy of the localStorage value.
+const parseBackup = (text: string): { data: AppData; exportedAt?: string } => {
+  const parsed = JSON.parse(text);
+  if (parsed?.app === BACKUP_APP_ID && parsed.data) {
+    return { data: migrateData({ ...parsed.data, schemaVersion: parsed.data.schemaVersion ?? parsed.schemaVersion }), exportedAt: parsed.exportedAt };
+  }
+  return { data: migrateData(parsed) };
 };
 
 const AppContext = createContext<{
@@ -104,6 +1000,24 @@ const AppContext = createContext<{
   saveSettings: (settings: Settings) => void;
   activateLicense: (key: string) => 'success' | 'invalid' | 'duplicate';
   addMessageTemplate: (template: MessageTemplate) => void;
+  updateMessageTemplate: (template: MessageTemplate) => void;
+  deleteMessageTemplate: (id: string) => void;
+  moveMessageTemplate: (fromIndex: number, toIndex: number) => void;
+  restoreDefaultTemplates: () => void;
+  addCampaign: (campaign: Campaign) => void;
+  updateCampaign: (campaign: Campaign) => void;
+  deleteCampaign: (id: string) => void;
+  sendWhatsApp: (client: Client, text: string, log: Pick<MessageLogEntry, 'context' | 'templateId' | 'campaignId' | 'reminderKey'>, openChat?: boolean) => void;
+  addLedgerEntries: (clientId: string, entries: LedgerEntry[], changes?: Partial<Client>) => void;
+  issuePixCharge: (client: Client, amount: number) => PixCharge;
+  recordPayment: (client: Client, amount: number, details?: Partial<Omit<LedgerEntry, 'type' | 'amount'>>) => LedgerEntry;
+  addCoupon: (coupon: Coupon) => void;
+  deleteCoupon: (id: string) => void;
+  applyCoupon: (client: Client, code: string) => keyof typeof TRANSLATIONS['pt'] | null;
+  addSupplier: (supplier: Supplier) => void;
+  updateSupplier: (supplier: Supplier) => void;
+  deleteSupplier: (id: string) => void;
+  addSupplierMovement: (supplierId: string, movement: SupplierMovement) => void;
   navigate: (view: ViewState) => void;
   currentView: ViewState;
   isLicenseValid: boolean;
@@ -123,6 +1037,24 @@ const AppContext = createContext<{
   saveSettings: () => {},
   activateLicense: () => 'invalid',
   addMessageTemplate: () => {},
+  updateMessageTemplate: () => {},
+  deleteMessageTemplate: () => {},
+  moveMessageTemplate: () => {},
+  restoreDefaultTemplates: () => {},
+  addCampaign: () => {},
+  updateCampaign: () => {},
+  deleteCampaign: () => {},
+  sendWhatsApp: () => {},
+  addLedgerEntries: () => {},
+  issuePixCharge: () => ({ txid: '', amount: 0, createdAt: '' }),
+  recordPayment: () => newLedgerEntry('payment', 0),
+  addCoupon: () => {},
+  deleteCoupon: () => {},
+  applyCoupon: () => null,
+  addSupplier: () => {},
+  updateSupplier: () => {},
+  deleteSupplier: () => {},
+  addSupplierMovement: () => {},
   navigate: () => {},
   currentView: 'dashboard',
   isLicenseValid: false,
@@ -131,21 +1063,22 @@ const AppContext = createContext<{
 
 const AppProvider: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
   const [data, setData] = useState<AppData>(() => {
-    const saved = localStorage.getItem('iptv_manager_data');
+    const saved = localStorage.getItem(STORAGE_KEY);
     if (saved) {
-      const parsed = JSON.parse(saved);
-      // Ensure installDate exists for existing users
-      if (!parsed.settings.installDate) {
-        parsed.settings.installDate = new Date().toISOString();
+      try {
+        return migrateData(JSON.parse(saved));
+      } catch (e) {
+        // Keep the unreadable copy aside so starting fresh does not destroy it
+        console.error(e);
+        localStorage.setItem(`${STORAGE_KEY}_corrupted_${Date.now()}`, saved);
       }
-      return parsed;
     }
     return INITIAL_DATA;
   });
   const [currentView, setCurrentView] = useState<ViewState>('dashboard');
 
   useEffect(() => {
-    localStorage.setItem('iptv_manager_data', JSON.stringify(data));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
   }, [data]);
 
   const isLicenseValid = React.useMemo(() => {
@@ -169,12 +1102,109 @@ const AppProvider: React.FC<{ children?: React.ReactNode }> = ({ children }) =>
   const deleteClient = (id: string) => setData(p => ({ ...p, clients: p.clients.filter(c => c.id !== id) }));
   const addPlan = (plan: Plan) => setData(p => ({ ...p, plans: [...p.plans, plan] }));
   const updatePlan = (plan: Plan) => setData(p => ({ ...p, plans: p.plans.map(pl => pl.id === plan.id ? plan : pl) }));
-  const deletePlan = (id: string) => setData(p => ({ ...p, plans: p.plans.filter(pl => pl.id !== id) }));
+  // Refuses while any line still references the plan; PlanList reassigns or archives first
+  const deletePlan = (id: string) => setData(p => p.clients.some(c => c.subscriptions.some(s => s.planId === id)) ? p : ({ ...p, plans: p.plans.filter(pl => pl.id !== id) }));
   const addAccount = (acc: AccountPayable) => setData(p => ({ ...p, accountsPayable: [...p.accountsPayable, acc] }));
   const updateAccount = (acc: AccountPayable) => setData(p => ({ ...p, accountsPayable: p.accountsPayable.map(a => a.id === acc.id ? acc : a) }));
   const deleteAccount = (id: string) => setData(p => ({ ...p, accountsPayable: p.accountsPayable.filter(a => a.id !== id) }));
   const saveSettings = (st: Settings) => setData(p => ({ ...p, settings: st }));
   const addMessageTemplate = (t: MessageTemplate) => setData(p => ({ ...p, messageTemplates: [...p.messageTemplates, t] }));
+  const updateMessageTemplate = (t: MessageTemplate) => setData(p => ({ ...p, messageTemplates: p.messageTemplates.map(m => m.id === t.id ? t : m) }));
+  const deleteMessageTemplate = (id: string) => setData(p => ({ ...p, messageTemplates: p.messageTemplates.filter(m => m.id !== id) }));
+  const moveMessageTemplate = (fromIndex: number, toIndex: number) => setData(p => {
+    const list = [...p.messageTemplates];
+    const [moved] = list.splice(fromIndex, 1);
+    list.splice(Math.max(0, Math.min(toIndex, list.length)), 0, moved);
+    return { ...p, messageTemplates: list };
+  });
+  // Defaults come back with their original text; custom templates are kept
+  const restoreDefaultTemplates = () => setData(p => ({
+    ...p,
+    messageTemplates: [...DEFAULT_TEMPLATES, ...p.messageTemplates.filter(m => !DEFAULT_TEMPLATES.some(d => d.id === m.id))]
+  }));
+  const addCampaign = (c: Campaign) => setData(p => ({ ...p, campaigns: [c, ...p.campaigns] }));
+  const updateCampaign = (c: Campaign) => setData(p => ({ ...p, campaigns: p.campaigns.map(x => x.id === c.id ? c : x) }));
+  const deleteCampaign = (id: string) => setData(p => ({ ...p, campaigns: p.campaigns.filter(x => x.id !== id) }));
+  const addCoupon = (c: Coupon) => setData(p => ({ ...p, coupons: [c, ...p.coupons] }));
+  const deleteCoupon = (id: string) => setData(p => ({ ...p, coupons: p.coupons.filter(x => x.id !== id) }));
+  const addSupplier = (s: Supplier) => setData(p => ({ ...p, suppliers: [...p.suppliers, s] }));
+  const updateSupplier = (s: Supplier) => setData(p => ({ ...p, suppliers: p.suppliers.map(x => x.id === s.id ? s : x) }));
+  // Lines on a deleted supplier stay active, just without credit tracking
+  const deleteSupplier = (id: string) => setData(p => ({
+    ...p,
+    suppliers: p.suppliers.filter(x => x.id !== id),
+    clients: p.clients.map(c => c.subscriptions.some(s => s.supplierId === id) ? { ...c, subscriptions: c.subscriptions.map(s => s.supplierId === id ? { ...s, supplierId: undefined } : s) } : c)
+  }));
+  const addSupplierMovement = (supplierId: string, movement: SupplierMovement) => setData(p => ({
+    ...p,
+    suppliers: p.suppliers.map(x => x.id === supplierId ? { ...x, movements: [...x.movements, movement] } : x)
+  }));
+
+  // Every message to a client goes through here so it lands in the client's log.
+  // openChat=false only records a message that was sent some other way.
+  const sendWhatsApp = (client: Client, text: string, log: Pick<MessageLogEntry, 'context' | 'templateId' | 'campaignId' | 'reminderKey'>, openChat = true) => {
+    if (openChat) window.open(`https://wa.me/${client.whatsapp}${text ? `?text=${encodeURIComponent(text)}` : ''}`, '_blank');
+    const entry: MessageLogEntry = { id: `${Date.now()}${Math.random().toString(36).slice(2, 6)}`, date: new Date().toISOString(), channel: 'whatsapp', text, ...log };
+    setData(p => ({ ...p, clients: p.clients.map(c => c.id === client.id ? { ...c, messageLog: [...(c.messageLog || []), entry] } : c) }));
+  };
+
+  // All money movement goes through the ledger; `changes` is applied in the same update
+  // (e.g. a renewal moves dueDate together with its charge).
+  // Payments are numbered here, inside the update, so receipt numbers never repeat.
+  // A referred client's first payment also credits whoever referred them.
+  const addLedgerEntries = (clientId: string, entries: LedgerEntry[], changes: Partial<Client> = {}) => setData(p => {
+    let lastReceipt = p.clients.reduce((max, c) => c.ledger.reduce((m, e) => Math.max(m, e.receiptNumber || 0), max), 0);
+    const numbered = entries.map(e => (e.type === 'payment' || e.type === 'partial_payment') && !e.receiptNumber ? { ...e, receiptNumber: ++lastReceipt } : e);
+    const client = p.clients.find(c => c.id === clientId);
+    const credit = p.settings.referralCredit || 0;
+    const referrerId = client?.referredBy && !client.referralRewarded && credit > 0 && numbered.some(e => e.receiptNumber) && p.clients.some(c => c.id === client.referredBy) ? client.referredBy : null;
+    const reward: RenewalDiscount = { kind: 'fixed', value: credit, reason: 'referral', grantedAt: new Date().toISOString(), source: client?.name };
+    return {
+      ...p,
+      clients: p.clients.map(c => {
+        if (c.id === clientId) return withLedger({ ...c, ...changes, ...(referrerId ? { referralRewarded: true } : {}) }, [...c.ledger, ...numbered]);
+        if (c.id === referrerId) return { ...c, renewalDiscounts: [...(c.renewalDiscounts || []), reward] };
+        return c;
+      })
+    };
+  });
+
+  // Shared by PaymentModal and bank reconciliation; anything below the open balance is partial
+  const recordPayment = (client: Client, amount: number, details: Partial<Omit<LedgerEntry, 'type' | 'amount'>> = {}) => {
+    const entry = newLedgerEntry(amount < (client.amountOwed || 0) ? 'partial_payment' : 'payment', amount, details);
+    addLedgerEntries(client.id, [entry]);
+    return entry;
+  };
+
+  // Returns why the coupon was refused, or null once it is on the client's next renewal
+  const applyCoupon = (client: Client, code: string) => {
+    const coupon = data.coupons.find(c => c.code === normalizeCouponCode(code));
+    const error = getCouponError(coupon);
+    if (error || !coupon) return error;
+    const current = data.clients.find(c => c.id === client.id);
+    if (current?.renewalDiscounts?.some(d => d.couponId === coupon.id)) return 'couponAlreadyApplied';
+    const discount: RenewalDiscount = { kind: coupon.kind, value: coupon.value, reason: 'coupon', grantedAt: new Date().toISOString(), couponId: coupon.id, source: coupon.code };
+    setData(p => ({
+      ...p,
+      coupons: p.coupons.map(c => c.id === coupon.id ? { ...c, uses: c.uses + 1 } : c),
+      clients: p.clients.map(c => c.id === client.id ? { ...c, renewalDiscounts: [...(c.renewalDiscounts || []), discount] } : c)
+    }));
+    return null;
+  };
+
+  // Returns the client's open Pix charge or records a new one with a txid no other charge uses
+  // txids issued since the last render are not in `data` yet
+  const issuedTxids = React.useRef(new Set<string>());
+  const issuePixCharge = (client: Client, amount: number) => {
+    const current = data.clients.find(c => c.id === client.id) || client;
+    const open = getOpenPixCharge(current, amount);
+    if (open) return open;
+    const taken = new Set<string>([...issuedTxids.current, ...data.clients.flatMap(c => (c.pixCharges || []).map(pc => pc.txid))]);
+    const charge: PixCharge = { txid: generatePixTxid(taken), amount: roundMoney(amount), createdAt: new Date().toISOString() };
+    issuedTxids.current.add(charge.txid);
+    setData(p => ({ ...p, clients: p.clients.map(c => c.id === client.id ? { ...c, pixCharges: [...(c.pixCharges || []), charge] } : c) }));
+    return charge;
+  };
 
   const activateLicense = (inputKey: string) => {
     const today = new Date();
@@ -220,7 +1250,11 @@ const AppProvider: React.FC<{ children?: React.ReactNode }> = ({ children }) =>
       data, setData, addClient, updateClient, deleteClient,
       addPlan, updatePlan, deletePlan, saveSettings, activateLicense,
       navigate: setCurrentView, currentView, isLicenseValid,
-      addMessageTemplate, addAccount, deleteAccount, updateAccount, t
+      addMessageTemplate, updateMessageTemplate, deleteMessageTemplate, moveMessageTemplate, restoreDefaultTemplates,
+      addCampaign, updateCampaign, deleteCampaign, sendWhatsApp, addLedgerEntries, issuePixCharge, recordPayment,
+      addCoupon, deleteCoupon, applyCoupon,
+      addSupplier, updateSupplier, deleteSupplier, addSupplierMovement,
+      addAccount, deleteAccount, updateAccount, t
     }}>
       {children}
     </AppContext.Provider>
@@ -229,24 +1263,38 @@ const AppProvider: React.FC<{ children?: React.ReactNode }> = ({ children }) =>
 
 // --- Components ---
 
-const PaymentModal = ({ isOpen, onClose, onConfirm, totalValue, title }: any) => {
+// withMethod: client payments also record how they were paid; onConfirm receives { method, reference }
+const PaymentModal = ({ isOpen, onClose, onConfirm, totalValue, title, withMethod }: any) => {
   const { t } = useContext(AppContext);
   const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('pix');
+  const [reference, setReference] = useState('');
   if (!isOpen) return null;
+  const details = { method, reference: reference.trim() || undefined };
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
       <div className="bg-white rounded-lg p-6 w-full max-w-sm">
         <h3 className="text-lg font-bold mb-4">{title}</h3>
         <p className="mb-4 text-gray-600">{t('totalValue')}: R$ {totalValue.toFixed(2)}</p>
         <div className="space-y-3">
-          <button onClick={() => onConfirm('total')} className="w-full bg-green-600 text-white p-3 rounded font-bold">{t('payTotal')} (R$ {totalValue.toFixed(2)})</button>
+          {withMethod && (
+            <div className="grid grid-cols-2 gap-2">
+              <div><label className="text-xs text-gray-500">{t('paymentMethod')}</label>
+                <select className="w-full p-2 border rounded bg-white" value={method} onChange={e => setMethod(e.target.value as PaymentMethod)}>
+                  {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(m => <option key={m} value={m}>{t(PAYMENT_METHOD_LABELS[m])}</option>)}
+                </select>
+              </div>
+              <div><label className="text-xs text-gray-500">{t('reference')}</label><input className="w-full p-2 border rounded" value={reference} onChange={e => setReference(e.target.value)} /></div>
+            </div>
+          )}
+          <button onClick={() => onConfirm('total', totalValue, details)} className="w-full bg-green-600 text-white p-3 rounded font-bold">{t('payTotal')} (R$ {totalValue.toFixed(2)})</button>
           <div className="border-t pt-3">
             <p className="text-sm font-semibold mb-2">{t('payPartial')}:</p>
             <div className="flex space-x-2">
               <span className="p-2 bg-gray-100 border border-r-0 rounded-l">R$</span>
               <input type="number" className="w-full p-2 border rounded-r" placeholder="0.00" value={amount} onChange={e => setAmount(e.target.value)} />
             </div>
-            <button onClick={() => { if(Number(amount) > 0) onConfirm('partial', Number(amount)); }} className="w-full bg-blue-600 text-white p-3 rounded font-bold mt-2" disabled={!amount || Number(amount) <= 0}>{t('confirmPartial')}</button>
+            <button onClick={() => { if(Number(amount) > 0) onConfirm('partial', Number(amount), details); }} className="w-full bg-blue-600 text-white p-3 rounded font-bold mt-2" disabled={!amount || Number(amount) <= 0}>{t('confirmPartial')}</button>
           </div>
           <button onClick={onClose} className="w-full bg-gray-200 text-gray-800 p-3 rounded mt-2">{t('cancel')}</button>
         </div>
@@ -255,38 +1303,463 @@ const PaymentModal = ({ isOpen, onClose, onConfirm, totalValue, title }: any) =>
   );
 };
 
-const ChargeModal = ({ isOpen, onClose, client, plan, settings }: any) => {
-  const { t } = useContext(AppContext);
+const ChargeModal = ({ isOpen, onClose, client, settings }: any) => {
+  const { data, t, sendWhatsApp, issuePixCharge } = useContext(AppContext);
+  const [charge, setCharge] = useState<PixCharge | null>(null);
+  const canvasRef = React.useRef<HTMLCanvasElement>(null);
+  const amount = client ? client.amountOwed ?? getClientRecurringPrice(client, data.plans) : 0;
+  useEffect(() => {
+    setCharge(isOpen && client && amount > 0 && isValidPixKey(settings.pixKey, settings.pixKeyType) ? issuePixCharge(client, amount) : null);
+  }, [isOpen, client?.id, amount]);
+  const pixCode = isOpen && charge ? generatePix(settings, amount, charge.txid) : '';
+  useEffect(() => {
+    if (canvasRef.current && pixCode) drawQrCode(canvasRef.current, pixCode);
+  }, [pixCode]);
   if (!isOpen || !client) return null;
-  const amount = client.amountOwed ?? (plan?.price || 0);
-  const pixCode = settings.pixKey ? generatePix(settings.pixKey, settings.pixName || settings.companyName, 'BRASIL', amount) : '';
-  
+
+  const qrFileName = `pix-${client.name.replace(/\W+/g, '-').toLowerCase()}.png`;
+  const withQrBlob = (fn: (blob: Blob) => void) => canvasRef.current?.toBlob(blob => { if (blob) fn(blob); }, 'image/png');
+  // Native share sheet where files are supported (mobile), plain download elsewhere
+  const handleShareQr = () => withQrBlob(blob => {
+    const file = new File([blob], qrFileName, { type: 'image/png' });
+    if (navigator.canShare?.({ files: [file] })) navigator.share({ files: [file], text: pixCode }).catch(() => {});
+    else downloadFile(blob, qrFileName, 'image/png');
+  });
+
+  // Discounts on the open renewal are listed so the client sees why the value is lower
+  const breakdown = client.paymentStatus === 'pending' ? getChargeBreakdown(client.ledger) : null;
+  const discounts = breakdown?.discounts || [];
+  const discountLines = discounts.map(d => `${d.description || t('ledgerDiscount')}: - R$ ${d.amount.toFixed(2)}`);
+
   const handleShare = () => {
-    const text = `Olá ${client.name}!\nSeguem dados para pagamento:\nValor: R$ ${amount.toFixed(2)}\n\nChave Pix: ${settings.pixKey}\n\nCódigo Copia e Cola:\n${pixCode}`;
-    window.open(`https://wa.me/${client.whatsapp}?text=${encodeURIComponent(text)}`, '_blank');
+    const details = discounts.length ? `${t('planValue')}: R$ ${breakdown!.charge.amount.toFixed(2)}\n${discountLines.join('\n')}\n` : '';
+    const text = `Olá ${client.name}!\nSeguem dados para pagamento:\n${details}Valor: R$ ${amount.toFixed(2)}\n\nChave Pix: ${settings.pixKey}\n\nCódigo Copia e Cola:\n${pixCode}`;
+    sendWhatsApp(client, text, { context: 'charge' });
   };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
-      <div className="bg-white rounded-lg p-6 w-full max-w-sm text-center">
+      <div className="bg-white rounded-lg p-6 w-full max-w-sm text-center max-h-[90vh] overflow-y-auto">
         <h3 className="text-lg font-bold mb-2">{t('pixCharge')}</h3>
         <p className="text-sm text-gray-600 mb-4">{client.name}</p>
+        {discounts.length > 0 && (
+          <div className="text-xs text-left bg-green-50 rounded p-2 mb-2">
+            <p className="flex justify-between"><span>{t('planValue')}</span><span>R$ {breakdown!.charge.amount.toFixed(2)}</span></p>
+            {discounts.map(d => <p key={d.id} className="flex justify-between text-green-700"><span>{d.description || t('ledgerDiscount')}</span><span>- R$ {d.amount.toFixed(2)}</span></p>)}
+          </div>
+        )}
         <div className="text-3xl font-bold text-brand-blue mb-4">R$ {amount.toFixed(2)}</div>
         {pixCode ? (
           <>
-             <div className="bg-gray-100 p-4 rounded mb-4 break-all text-xs font-mono">{pixCode}</div>
+             <canvas ref={canvasRef} className="w-48 h-48 mx-auto mb-2 border rounded" />
+             <div className="grid grid-cols-2 gap-2 mb-3">
+               <button onClick={() => withQrBlob(blob => downloadFile(blob, qrFileName, 'image/png'))} className="bg-gray-100 text-gray-700 p-2 rounded text-xs font-bold flex items-center justify-center"><Download size={14} className="mr-1"/> {t('downloadQr')}</button>
+               <button onClick={handleShareQr} className="bg-gray-100 text-gray-700 p-2 rounded text-xs font-bold flex items-center justify-center"><Share2 size={14} className="mr-1"/> {t('shareQr')}</button>
+             </div>
+             <div className="bg-gray-100 p-4 rounded mb-2 break-all text-xs font-mono">{pixCode}</div>
+             <p className="text-xs text-gray-500 mb-4">{t('pixTxid')}: <span className="font-mono">{charge?.txid}</span></p>
              <button onClick={handleShare} className="w-full bg-green-600 text-white p-3 rounded font-bold flex items-center justify-center mb-2"><MessageCircle size={18} className="mr-2" /> {t('sendWhatsApp')}</button>
              <button onClick={() => navigator.clipboard.writeText(pixCode)} className="w-full bg-blue-100 text-blue-700 p-3 rounded font-bold">{t('copyCode')}</button>
           </>
         ) : (
-          <p className="text-red-500 text-sm">Configure a chave Pix nas configurações para gerar o QR Code.</p>
+          <p className="text-red-500 text-sm">{t('pixKeyNotConfigured')}</p>
+        )}
+        <button onClick={onClose} className="w-full bg-gray-200 text-gray-800 p-3 rounded mt-4">{t('close')}</button>
+      </div>
+    </div>
+  );
+};
+
+const SendMessageModal = ({ client, onClose }: { client: Client | null; onClose: () => void }) => {
+  const { data, t, sendWhatsApp } = useContext(AppContext);
+  const [showAll, setShowAll] = useState(false);
+  if (!client) return null;
+
+  const contexts = getClientMessageContexts(client, data.settings);
+  const { suggested, others } = rankTemplates(data.messageTemplates, contexts);
+
+  const close = () => { setShowAll(false); onClose(); };
+  const send = (text = '', templateId?: string) => {
+    sendWhatsApp(client, text, { context: contexts[0], templateId });
+    close();
+  };
+
+  const renderOption = (tpl: MessageTemplate) => (
+    <button key={tpl.id} onClick={() => send(renderTemplateForClient(tpl, client, data), tpl.id)} className="w-full text-left bg-blue-50 hover:bg-blue-100 border border-blue-100 p-3 rounded">
+      <p className="font-bold text-sm text-blue-800">{tpl.title} <span className="text-xs font-normal text-gray-500">({t(TEMPLATE_TYPE_LABELS[tpl.type] || 'generalType')})</span></p>
+      <p className="text-xs text-gray-600 mt-1 line-clamp-2">{renderTemplateForClient(tpl, client, data)}</p>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-sm max-h-[90vh] flex flex-col">
+        <h3 className="font-bold text-lg mb-2">{t('sendMessage')}</h3>
+        <p className="text-gray-600 mb-2">{t('client')}: {client.name}</p>
+        <div className="flex flex-wrap gap-1 mb-4">
+          {contexts.filter(c => c !== 'general').map(c => <span key={c} className={`text-xs px-2 py-0.5 rounded font-bold ${c === 'overdue' ? 'bg-red-100 text-red-700' : c === 'birthday' ? 'bg-pink-100 text-pink-700' : 'bg-gray-100 text-gray-700'}`}>{t(MESSAGE_CONTEXT_LABELS[c])}</span>)}
+          {getLastMessageHint(client, t) && <span className="text-xs px-2 py-0.5 rounded bg-green-50 text-green-700">{getLastMessageHint(client, t)}</span>}
+        </div>
+        <button onClick={() => send()} className="w-full bg-green-600 text-white p-3 rounded font-bold mb-4 flex justify-center items-center"><MessageCircle className="mr-2"/> {t('writePersonalized')}</button>
+        <div className="overflow-y-auto flex-1 space-y-2">
+          {data.messageTemplates.length === 0 && <p className="text-sm text-gray-400 italic text-center py-2">{t('noTemplates')}</p>}
+          {suggested.length > 0 && <h4 className="text-xs font-bold text-gray-500 uppercase flex items-center"><FileText size={14} className="mr-1"/> {t('suggestedTemplates')}</h4>}
+          {suggested.map(renderOption)}
+          {others.length > 0 && (suggested.length === 0 || showAll ? (
+            <>
+              <h4 className="text-xs font-bold text-gray-500 uppercase pt-2">{t('otherTemplates')}</h4>
+              {others.map(renderOption)}
+            </>
+          ) : (
+            <button onClick={() => setShowAll(true)} className="w-full text-sm text-blue-600 font-semibold p-2 flex items-center justify-center">{t('otherTemplates')} ({others.length}) <ChevronDown size={16} className="ml-1"/></button>
+          ))}
+        </div>
+        <button onClick={close} className="w-full bg-gray-200 text-gray-800 p-3 rounded mt-4">{t('cancel')}</button>
+      </div>
+    </div>
+  );
+};
+
+const MessageLogTimeline = ({ client }: { client: Client }) => {
+  const { data, t } = useContext(AppContext);
+  const log = [...(client.messageLog || [])].reverse();
+  if (log.length === 0) return <p className="text-sm text-gray-400 italic text-center py-4">{t('noMessagesSent')}</p>;
+  return (
+    <ol className="relative border-l-2 border-green-200 ml-2 space-y-3">
+      {log.map(entry => (
+        <li key={entry.id} className="ml-4">
+          <span className="absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full bg-green-500 border-2 border-white"/>
+          <p className="text-xs text-gray-500">
+            {new Date(entry.date).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })} · <span className="font-bold">{t(MESSAGE_CONTEXT_LABELS[entry.context] || 'contextGeneral')}</span>
+            {entry.templateId && ` · ${data.messageTemplates.find(m => m.id === entry.templateId)?.title || ''}`}
+          </p>
+          <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">{entry.text || <span className="italic text-gray-400">{t('chatOpened')}</span>}</p>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+const ReceiptModal = ({ target, onClose }: { target: { clientId: string; entryId: string } | null; onClose: () => void }) => {
+  const { data, sendWhatsApp, t } = useContext(AppContext);
+  const frameRef = React.useRef<HTMLIFrameElement>(null);
+  const client = target ? data.clients.find(c => c.id === target.clientId) : undefined;
+  const entry = client?.ledger.find(e => e.id === target?.entryId);
+  if (!client || !entry) return null;
+  const receipt = buildReceipt(data, client, entry);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-4 w-full max-w-md">
+        <h3 className="font-bold text-lg mb-3 text-brand-blue flex items-center"><FileText size={20} className="mr-2"/> {t('receiptNumber', { number: receipt.number })}</h3>
+        <iframe ref={frameRef} title={t('receipt')} srcDoc={receiptHtml(receipt, t)} className="w-full h-96 border rounded bg-white" />
+        <div className="grid grid-cols-2 gap-2 mt-3">
+          <button onClick={() => frameRef.current?.contentWindow?.print()} className="bg-brand-blue text-white p-3 rounded font-bold text-sm flex items-center justify-center"><FileText size={16} className="mr-2"/> {t('printReceipt')}</button>
+          <button onClick={() => sendWhatsApp(client, receiptText(receipt, t), { context: 'receipt' })} className="bg-green-600 text-white p-3 rounded font-bold text-sm flex items-center justify-center"><MessageCircle size={16} className="mr-2"/> {t('shareReceipt')}</button>
+        </div>
+        <button onClick={onClose} className="w-full bg-gray-200 text-gray-800 p-3 rounded mt-2">{t('close')}</button>
+      </div>
+    </div>
+  );
+};
+
+// Reads the client from the store so entries added here show up immediately
+const LedgerView = ({ clientId }: { clientId: string }) => {
+  const { data, addLedgerEntries, t } = useContext(AppContext);
+  const [draft, setDraft] = useState<{ type: LedgerEntryType; amount: string; method: PaymentMethod; reference: string; description: string } | null>(null);
+  const [receiptFor, setReceiptFor] = useState<string | null>(null);
+  const client = data.clients.find(c => c.id === clientId);
+  if (!client) return null;
+
+  let running = 0;
+  const rows = client.ledger.map(e => ({ entry: e, balance: running = roundMoney(running + LEDGER_SIGN[e.type] * e.amount) })).reverse();
+  const balance = getLedgerBalance(client.ledger);
+  const hasMethod = draft && ['payment', 'partial_payment', 'refund'].includes(draft.type);
+
+  const save = () => {
+    if (!draft || !(Number(draft.amount) > 0)) return;
+    const entry = newLedgerEntry(draft.type, Number(draft.amount), {
+      method: hasMethod ? draft.method : undefined,
+      reference: draft.reference.trim() || undefined,
+      description: draft.description.trim() || undefined
+    });
+    addLedgerEntries(client.id, [entry]);
+    if (entry.type === 'payment' || entry.type === 'partial_payment') setReceiptFor(entry.id);
+    setDraft(null);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-sm">{t('balance')}: <span className={`font-bold ${balance > 0 ? 'text-red-600' : 'text-green-700'}`}>R$ {Math.abs(balance).toFixed(2)}{balance < 0 && ` (${t('credit')})`}</span></span>
+        {!draft && <button onClick={() => setDraft({ type: 'payment', amount: '', method: 'pix', reference: '', description: '' })} className="text-xs bg-brand-blue text-white px-2 py-1 rounded flex items-center"><Plus size={14} className="mr-1"/> {t('newLedgerEntry')}</button>}
+      </div>
+      {draft && (
+        <div className="bg-gray-50 border rounded p-2 mb-3 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <select className="p-2 border rounded bg-white text-sm" value={draft.type} onChange={e => setDraft({ ...draft, type: e.target.value as LedgerEntryType })}>
+              {(Object.keys(LEDGER_TYPE_LABELS) as LedgerEntryType[]).map(type => <option key={type} value={type}>{t(LEDGER_TYPE_LABELS[type])}</option>)}
+            </select>
+            <input type="number" className="p-2 border rounded text-sm" placeholder="0.00" value={draft.amount} onChange={e => setDraft({ ...draft, amount: e.target.value })} />
+          </div>
+          {hasMethod && (
+            <div className="grid grid-cols-2 gap-2">
+              <select className="p-2 border rounded bg-white text-sm" value={draft.method} onChange={e => setDraft({ ...draft, method: e.target.value as PaymentMethod })}>
+                {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(m => <option key={m} value={m}>{t(PAYMENT_METHOD_LABELS[m])}</option>)}
+              </select>
+              <input className="p-2 border rounded text-sm" placeholder={t('reference')} value={draft.reference} onChange={e => setDraft({ ...draft, reference: e.target.value })} />
+            </div>
+          )}
+          <input className="w-full p-2 border rounded text-sm" placeholder={t('description')} value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} />
+          <div className="flex space-x-2">
+            <button onClick={save} disabled={!(Number(draft.amount) > 0)} className="flex-1 bg-green-600 text-white p-2 rounded text-sm font-bold disabled:opacity-50">{t('save')}</button>
+            <button onClick={() => setDraft(null)} className="flex-1 bg-gray-200 p-2 rounded text-sm">{t('cancel')}</button>
+          </div>
+        </div>
+      )}
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-400 italic text-center py-4">{t('noLedgerEntries')}</p>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {rows.map(({ entry, balance }) => (
+            <li key={entry.id} className={`p-2 rounded border flex justify-between ${LEDGER_SIGN[entry.type] > 0 ? 'bg-red-50 border-red-100' : 'bg-green-50 border-green-100'}`}>
+              <div>
+                <p className="font-semibold">{t(LEDGER_TYPE_LABELS[entry.type])}{entry.method && ` · ${t(PAYMENT_METHOD_LABELS[entry.method])}`}</p>
+                <p className="text-xs text-gray-500">{new Date(entry.date).toLocaleDateString()}{entry.description && ` · ${entry.description}`}{entry.reference && ` · ${entry.reference}`}</p>
+              </div>
+              <div className="text-right">
+                <p className={`font-bold ${LEDGER_SIGN[entry.type] > 0 ? 'text-red-600' : 'text-green-700'}`}>{LEDGER_SIGN[entry.type] > 0 ? '+' : '−'} R$ {entry.amount.toFixed(2)}</p>
+                <p className="text-xs text-gray-500">{t('balance')}: {balance.toFixed(2)}</p>
+                {entry.receiptNumber && <button onClick={() => setReceiptFor(entry.id)} className="text-xs text-brand-blue underline flex items-center ml-auto"><FileText size={12} className="mr-1"/> {t('receipt')}</button>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      <ReceiptModal target={receiptFor ? { clientId, entryId: receiptFor } : null} onClose={() => setReceiptFor(null)} />
+    </div>
+  );
+};
+
+const ReminderQueueModal = ({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) => {
+  const { data, sendWhatsApp, t } = useContext(AppContext);
+  if (!isOpen) return null;
+  const pending = getPendingReminders(data);
+
+  const send = (reminder: PendingReminder, openChat = true) => {
+    const text = renderTemplateForClient(reminder.template, reminder.client, data);
+    sendWhatsApp(reminder.client, text, { context: getReminderContext(reminder.rule), templateId: reminder.template.id, reminderKey: reminder.key }, openChat);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-sm max-h-[80vh] flex flex-col">
+        <h3 className="font-bold text-lg mb-4 text-brand-blue">{t('remindersToday')} ({pending.length})</h3>
+        {pending.length > 0 && (
+          <button onClick={() => send(pending[0])} className="w-full bg-green-600 text-white p-3 rounded font-bold mb-4 flex items-center justify-center"><MessageCircle size={18} className="mr-2"/> {t('sendNextReminder', { count: pending.length })}</button>
         )}
+        <div className="overflow-y-auto flex-1 space-y-2">
+          {pending.length === 0 && <p className="text-sm text-gray-400 italic text-center py-4">{t('noRemindersToday')}</p>}
+          {pending.map(r => (
+            <div key={r.key + r.client.id} className={`p-3 rounded border ${r.rule.offsetDays > 0 ? 'bg-red-50 border-red-100' : 'bg-blue-50 border-blue-100'}`}>
+              <p className="font-bold">{r.client.name}</p>
+              <p className="text-xs text-gray-600 mb-2">{describeReminderRule(r.rule, t)} ({parseLocalDate(r.client.dueDate).toLocaleDateString()}) · {r.template.title}</p>
+              <div className="flex space-x-2">
+                <button onClick={() => send(r)} className="flex-1 bg-green-500 text-white text-xs font-bold py-2 rounded flex items-center justify-center"><MessageCircle size={14} className="mr-1"/> {t('sendWhatsApp')}</button>
+                <button onClick={() => send(r, false)} className="flex-1 bg-white border text-gray-700 text-xs font-bold py-2 rounded flex items-center justify-center"><Check size={14} className="mr-1"/> {t('markSent')}</button>
+              </div>
+            </div>
+          ))}
+        </div>
         <button onClick={onClose} className="w-full bg-gray-200 text-gray-800 p-3 rounded mt-4">{t('close')}</button>
       </div>
     </div>
   );
 };
 
+const BirthdayCard = () => {
+  const { data, t, sendWhatsApp, updateClient } = useContext(AppContext);
+  const { settings } = data;
+  const today = new Date(); today.setHours(0,0,0,0);
+  const windowDays = settings.dashboardBirthdayDays || 0;
+  const discountPercent = settings.birthdayDiscountPercent || 0;
+  const template = data.messageTemplates.find(m => m.type === 'client_birthday') || data.messageTemplates.find(m => m.type === 'birthday');
+
+  const birthdays = data.clients
+    .filter(c => c.birthDate)
+    .map(c => {
+      const next = getNextBirthday(c.birthDate, today);
+      return { client: c, next, days: Math.round((next.getTime() - today.getTime()) / 86400000) };
+    })
+    .filter(b => b.days <= windowDays)
+    .sort((a, b) => a.days - b.days);
+
+  // Congratulated if a birthday message was logged within the window before this birthday
+  const wasCongratulated = (client: Client, next: Date) => (client.messageLog || []).some(m =>
+    m.context === 'birthday' && new Date(m.date).getTime() >= next.getTime() - (windowDays + 1) * 86400000
+  );
+
+  const congratulate = (client: Client) => {
+    const text = template ? renderTemplateForClient(template, client, data) : '';
+    sendWhatsApp(client, text, { context: 'birthday', templateId: template?.id });
+  };
+
+  const giveDiscount = (client: Client) => updateClient({
+    ...client,
+    renewalDiscounts: [...(client.renewalDiscounts || []), { kind: 'percent', value: discountPercent, reason: 'birthday', grantedAt: new Date().toISOString() }]
+  });
+
+  return (
+    <div className="bg-white rounded-lg shadow mt-6">
+      <div className="p-4 border-b flex justify-between items-center">
+        <h3 className="font-bold text-lg text-gray-800 flex items-center"><Cake className="mr-2 text-pink-500" size={20}/> {t('birthdays')} ({birthdays.length})</h3>
+      </div>
+      {birthdays.length === 0 ? (
+        <p className="text-sm text-gray-400 italic text-center p-4">{t('noBirthdays')}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {birthdays.map(({ client, next, days }) => {
+            const done = wasCongratulated(client, next);
+            return (
+              <li key={client.id} className="p-3 flex flex-col md:flex-row md:items-center justify-between gap-2">
+                <div>
+                  <p className={`font-bold ${days === 0 ? 'text-pink-600' : ''}`}>{client.name}</p>
+                  <p className="text-xs text-gray-500">{next.toLocaleDateString()} · {days === 0 ? t('birthdayTodayLabel') : t('birthdayInDays', { days })}</p>
+                  {!!client.renewalDiscounts?.length && <p className="text-xs text-green-700 font-semibold">{t('discountOnNextRenewal', { value: client.renewalDiscounts.map(formatDiscount).join(' + ') })}</p>}
+                </div>
+                <div className="flex space-x-2">
+                  {discountPercent > 0 && !client.renewalDiscounts?.some(d => d.reason === 'birthday') && (
+                    <button onClick={() => giveDiscount(client)} className="bg-pink-50 text-pink-700 border border-pink-200 text-xs font-bold px-2 py-1 rounded">{t('giveBirthdayDiscount', { percent: discountPercent })}</button>
+                  )}
+                  <button onClick={() => congratulate(client)} className={`text-xs font-bold px-3 py-1 rounded flex items-center ${done ? 'bg-green-100 text-green-700' : 'bg-green-600 text-white'}`}>
+                    {done ? <Check size={14} className="mr-1"/> : <MessageCircle size={14} className="mr-1"/>} {done ? t('congratulated') : t('sendCongrats')}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const MATCH_REASON_LABELS: Record<BankMatch['reasons'][number], keyof typeof TRANSLATIONS['pt']> = {
+  txid: 'matchTxid', amount: 'matchAmount', name: 'matchName'
+};
+
+const BankReconciliationModal = ({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) => {
+  const { data, recordPayment, t } = useContext(AppContext);
+  const [matches, setMatches] = useState<(BankMatch & { accepted: boolean })[] | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => { setMatches(null); onClose(); };
+
+  // Bank files are often Windows-1252; fall back to it when the bytes are not valid UTF-8
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const r = new FileReader();
+    r.onload = () => {
+      const buffer = r.result as ArrayBuffer;
+      let text: string;
+      try { text = new TextDecoder('utf-8', { fatal: true }).decode(buffer); }
+      catch { text = new TextDecoder('windows-1252').decode(buffer); }
+      setMatches(matchBankCredits(parseBankStatement(text), data.clients).map(m => ({ ...m, accepted: !!m.clientId && !m.suggestion && !m.alreadyImported })));
+    };
+    r.readAsArrayBuffer(file);
+  };
+
+  const update = (i: number, changes: Partial<BankMatch & { accepted: boolean }>) =>
+    setMatches(list => list && list.map((m, j) => j === i ? { ...m, ...changes } : m));
+  const toRecord = (matches || []).filter(m => m.accepted && m.clientId && !m.alreadyImported);
+  const pending = data.clients.filter(c => c.paymentStatus === 'pending').sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleConfirm = () => {
+    // Several credits can settle the same client, so each is classified against the balance the previous ones left
+    const owed = new Map<string, number>();
+    toRecord.forEach(m => {
+      const client = data.clients.find(c => c.id === m.clientId);
+      if (!client) return;
+      const amountOwed = owed.get(client.id) ?? (client.amountOwed || 0);
+      owed.set(client.id, roundMoney(amountOwed - m.credit.amount));
+      recordPayment({ ...client, amountOwed }, m.credit.amount, {
+        date: parseLocalDate(m.credit.date).toISOString(),
+        method: 'pix',
+        reference: m.credit.id,
+        description: [t('bankStatement'), m.credit.name || m.credit.memo].filter(Boolean).join(': ')
+      });
+    });
+    alert(t('reconcileDone', { count: toRecord.length }));
+    handleClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-4 w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <h3 className="font-bold text-lg mb-2 text-brand-blue flex items-center"><FileText size={20} className="mr-2"/> {t('reconcileStatement')}</h3>
+        {!matches ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">{t('reconcileHelp')}</p>
+            <input type="file" accept=".ofx,.csv,.txt" onChange={handleFile} className="w-full text-sm" />
+          </div>
+        ) : matches.length === 0 ? (
+          <p className="text-sm text-gray-400 italic text-center py-6">{t('reconcileNoCredits')}</p>
+        ) : (
+          <div className="overflow-y-auto flex-1 space-y-2">
+            {matches.map((m, i) => (
+              <div key={m.credit.id + i} className={`p-2 rounded border text-sm ${m.alreadyImported ? 'bg-gray-50 opacity-60' : m.clientId && m.suggestion ? 'bg-yellow-50 border-yellow-100' : m.clientId ? 'bg-green-50 border-green-100' : 'bg-white'}`}>
+                <div className="flex justify-between items-start">
+                  <label className="flex items-start space-x-2">
+                    <input type="checkbox" className="mt-1" checked={m.accepted} disabled={m.alreadyImported || !m.clientId} onChange={e => update(i, { accepted: e.target.checked })} />
+                    <span>
+                      <span className="font-bold">R$ {m.credit.amount.toFixed(2)}</span> · {parseLocalDate(m.credit.date).toLocaleDateString()}
+                      <span className="block text-xs text-gray-500 break-all">{[m.credit.name, m.credit.memo].filter(Boolean).join(' · ')}</span>
+                    </span>
+                  </label>
+                  <div className="flex flex-wrap gap-1 justify-end">
+                    {m.alreadyImported && <span className="text-xs px-2 py-0.5 rounded bg-gray-200 text-gray-700 font-bold">{t('alreadyImported')}</span>}
+                    {m.suggestion && <span className="text-xs px-2 py-0.5 rounded bg-yellow-100 text-yellow-800 font-bold">{t('matchSuggestion')}</span>}
+                    {m.reasons.map(r => <span key={r} className="text-xs px-2 py-0.5 rounded bg-green-100 text-green-700 font-bold">{t(MATCH_REASON_LABELS[r])}</span>)}
+                  </div>
+                </div>
+                {!m.alreadyImported && (
+                  <select className="w-full mt-2 p-1 border rounded bg-white text-sm" value={m.clientId} onChange={e => update(i, { clientId: e.target.value, reasons: [], suggestion: false, accepted: !!e.target.value })}>
+                    <option value="">{t('noMatch')}</option>
+                    {pending.map(c => <option key={c.id} value={c.id}>{c.name} - R$ {(c.amountOwed || 0).toFixed(2)}</option>)}
+                  </select>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex space-x-2 mt-3">
+          {matches && matches.length > 0 && <button onClick={handleConfirm} disabled={toRecord.length === 0} className="flex-1 bg-green-600 text-white p-2 rounded font-bold disabled:opacity-50">{t('reconcileConfirm', { count: toRecord.length })}</button>}
+          <button onClick={handleClose} className="flex-1 bg-gray-200 text-gray-800 p-2 rounded">{t('close')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const CopyButton = ({ value }: { value?: string }) => {
+  const { t } = useContext(AppContext);
+  const [copied, setCopied] = useState(false);
+  const handleCopy = () => {
+    if (!value) return;
+    navigator.clipboard.writeText(value);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+  return (
+    <button onClick={handleCopy} disabled={!value} title={t('copy')} className="p-2 bg-gray-100 text-gray-600 rounded disabled:opacity-40">
+      {copied ? <Check size={14}/> : <Copy size={14}/>}
+    </button>
+  );
+};
+
 const SearchFilterBar = ({ searchTerm, setSearchTerm, filterValue, setFilterValue, filterOptions, placeholder }: any) => (
   <div className="flex flex-col md:flex-row gap-2 mb-4">
     <div className="relative flex-1">
@@ -304,6 +1777,215 @@ const SearchFilterBar = ({ searchTerm, setSearchTerm, filterValue, setFilterValu
   </div>
 );
 
+type CsvClientField = 'name' | 'whatsapp' | 'plan' | 'planPrice' | 'dueDate' | 'birthDate' | 'amountOwed';
+
+const CSV_CLIENT_FIELDS: { key: CsvClientField; label: keyof typeof TRANSLATIONS['pt']; aliases: string[] }[] = [
+  { key: 'name', label: 'fullName', aliases: ['nome', 'name', 'cliente', 'client'] },
+  { key: 'whatsapp', label: 'whatsapp', aliases: ['whatsapp', 'whats', 'zap', 'celular', 'telefone', 'fone', 'phone', 'tel'] },
+  { key: 'plan', label: 'planName', aliases: ['plano', 'plan'] },
+  // Before amountOwed so "valor do plano" isn't taken as the debt
+  { key: 'planPrice', label: 'csvPlanPrice', aliases: ['valorplano', 'valordoplano', 'precoplano', 'preco', 'mensalidade', 'price'] },
+  { key: 'dueDate', label: 'planDue', aliases: ['vencimento', 'venc', 'validade', 'expira', 'due'] },
+  { key: 'birthDate', label: 'birthDate', aliases: ['nascimento', 'aniversario', 'birth', 'nacimiento'] },
+  { key: 'amountOwed', label: 'pendingValue', aliases: ['valordevido', 'devendo', 'debito', 'saldo', 'valor', 'amount'] }
+];
+
+const guessCsvMapping = (headers: string[]) => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as Record<CsvClientField, number>;
+  CSV_CLIENT_FIELDS.forEach(f => {
+    const idx = normalized.findIndex((h, i) => !used.has(i) && f.aliases.some(a => h === a || h.startsWith(a)));
+    mapping[f.key] = idx;
+    if (idx >= 0) used.add(idx);
+  });
+  return mapping;
+};
+
+const ClientCsvImportModal = ({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) => {
+  const { data, setData, t } = useContext(AppContext);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<Record<CsvClientField, number>>({} as Record<CsvClientField, number>);
+  const [duplicateMode, setDuplicateMode] = useState<'skip' | 'update'>('skip');
+  const [createMissingPlans, setCreateMissingPlans] = useState(true);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => { setRows([]); onClose(); };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const r = new FileReader();
+    r.onload = () => {
+      const parsed = parseCsv(r.result as string);
+      setRows(parsed);
+      setMapping(guessCsvMapping(parsed[0] || []));
+    };
+    r.readAsText(file);
+  };
+
+  const columnCount = Math.max(0, ...rows.map(r => r.length));
+  const headers = Array.from({ length: columnCount }, (_, i) => (hasHeader && rows[0]?.[i]?.trim()) || t('csvColumn', { n: i + 1 }));
+  const body = hasHeader ? rows.slice(1) : rows;
+
+  const existingByPhone = new Map(data.clients.map(c => [normalizeWhatsapp(c.whatsapp), c]));
+  const seenPhones = new Set<string>();
+  const preview = body.map(r => {
+    const get = (f: CsvClientField) => mapping[f] >= 0 ? (r[mapping[f]] || '').trim() : '';
+    const name = get('name');
+    const whatsapp = normalizeWhatsapp(get('whatsapp'));
+    const planName = get('plan');
+    const plan = data.plans.find(p => !p.archived && p.name.trim().toLowerCase() === planName.toLowerCase());
+    const row = { name, whatsapp, planName, plan, planPrice: parseCsvAmount(get('planPrice')), dueDate: parseCsvDate(get('dueDate')), birthDate: parseCsvDate(get('birthDate'), true), amountOwed: parseCsvAmount(get('amountOwed')) };
+
+    let status: 'new' | 'duplicate' | 'repeated' | 'invalid' = 'new';
+    // A plan is only created from a price column, never from the client's balance
+    if (!name || !whatsapp || !planName || (!plan && (!createMissingPlans || !row.planPrice))) status = 'invalid';
+    else if (row.dueDate === undefined || row.birthDate === undefined) status = 'invalid';
+    else if (seenPhones.has(whatsapp)) status = 'repeated';
+    else if (existingByPhone.has(whatsapp)) status = 'duplicate';
+    if (whatsapp) seenPhones.add(whatsapp);
+    return { ...row, status, existing: existingByPhone.get(whatsapp) };
+  });
+
+  const counts = {
+    new: preview.filter(p => p.status === 'new').length,
+    duplicates: preview.filter(p => p.status === 'duplicate' || p.status === 'repeated').length,
+    invalid: preview.filter(p => p.status === 'invalid').length
+  };
+  const toUpdate = duplicateMode === 'update' ? preview.filter(p => p.status === 'duplicate').length : 0;
+
+  const handleImport = () => {
+    const todayStr = toDateStr(new Date());
+    const stamp = Date.now();
+    const newPlans: Plan[] = [];
+    const planIdFor = (row: typeof preview[number]) => {
+      if (row.plan) return row.plan.id;
+      let created = newPlans.find(p => p.name.toLowerCase() === row.planName.toLowerCase());
+      if (!created) {
+        created = createPlan(row.planName, row.planPrice!, `${stamp}p${newPlans.length}`);
+        newPlans.push(created);
+      }
+      return created.id;
+    };
+
+    const created: Client[] = [];
+    const updated = new Map<string, Client>();
+    preview.forEach((row, i) => {
+      if (row.status === 'new') {
+        const planId = planIdFor(row);
+        const price = getPlanPrice(row.plan || newPlans.find(p => p.id === planId));
+        const amountOwed = row.amountOwed ?? price;
+        const dueDate = row.dueDate || todayStr;
+        const client: Client = {
+          id: `${stamp}${i}`, name: row.name, whatsapp: row.whatsapp, paymentDate: dueDate,
+          birthDate: row.birthDate, paymentStatus: 'paid', notes: '', createdAt: todayStr, ledger: [],
+          ...subscriptionFields([newSubscription(planId, dueDate, { id: `${stamp}${i}s1` })])
+        };
+        created.push(withLedger(client, amountOwed > 0 ? [newLedgerEntry('charge', amountOwed, { id: `${client.id}o`, description: t('openingBalance') })] : []));
+      } else if (row.status === 'duplicate' && duplicateMode === 'update' && row.existing) {
+        const c = updated.get(row.existing.id) || row.existing;
+        // The sheet's value becomes the new balance through an adjusting entry
+        const diff = row.amountOwed !== undefined ? roundMoney(row.amountOwed - getLedgerBalance(c.ledger)) : 0;
+        const adjustment = diff ? [newLedgerEntry(diff > 0 ? 'charge' : 'discount', diff, { id: `${c.id}a${i}`, description: t('csvAdjustment') })] : [];
+        // The sheet has one plan per client, so it updates the line the client-level fields mirror
+        const primary = getPrimarySubscription(c.subscriptions);
+        const planId = planIdFor(row);
+        const subscriptions = c.subscriptions.map(s => s.id !== primary.id ? s : {
+          ...s, planId, dueDate: row.dueDate || s.dueDate, dueDay: row.dueDate ? undefined : s.dueDay,
+          ...(planId !== s.planId ? { periodId: undefined, priceOverrides: undefined } : {})
+        });
+        updated.set(c.id, withLedger(withSubscriptions({
+          ...c, name: row.name,
+          birthDate: row.birthDate || c.birthDate
+        }, subscriptions), [...c.ledger, ...adjustment]));
+      }
+    });
+
+    setData(p => ({
+      ...p,
+      plans: [...p.plans, ...newPlans],
+      clients: [...p.clients.map(c => updated.get(c.id) || c), ...created]
+    }));
+    alert(t('csvImported', { created: created.length, updated: updated.size, skipped: preview.length - created.length - updated.size }));
+    handleClose();
+  };
+
+  const statusStyle = { new: 'bg-green-100 text-green-700', duplicate: 'bg-yellow-100 text-yellow-700', repeated: 'bg-yellow-100 text-yellow-700', invalid: 'bg-red-100 text-red-700' };
+  const statusLabel = { new: t('csvNew'), duplicate: t('csvDuplicate'), repeated: t('csvRepeated'), invalid: t('csvInvalid') };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <h3 className="text-lg font-bold mb-4">{t('importCsv')}</h3>
+        {rows.length === 0 ? (
+          <label className="border-2 border-dashed border-blue-200 rounded p-8 text-center text-sm text-blue-600 cursor-pointer">
+            <Upload size={32} className="mx-auto mb-2"/>
+            {t('csvChooseFile')}
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile}/>
+          </label>
+        ) : (
+          <div className="overflow-y-auto flex-1 space-y-4">
+            <label className="flex items-center text-sm"><input type="checkbox" className="mr-2" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)}/> {t('csvHasHeader')}</label>
+            <div>
+              <h4 className="font-bold text-sm mb-2">{t('csvMapping')}</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {CSV_CLIENT_FIELDS.map(f => (
+                  <div key={f.key}>
+                    <label className="text-xs text-gray-500">{t(f.label)}</label>
+                    <select className="w-full p-2 border rounded bg-white text-sm" value={mapping[f.key] ?? -1} onChange={e => setMapping({ ...mapping, [f.key]: Number(e.target.value) })}>
+                      <option value={-1}>{t('csvIgnoreColumn')}</option>
+                      {headers.map((h, i) => <option key={i} value={i}>{h}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+              <div>
+                <label className="text-xs text-gray-500">{t('csvDuplicates')}</label>
+                <select className="w-full p-2 border rounded bg-white" value={duplicateMode} onChange={e => setDuplicateMode(e.target.value as any)}>
+                  <option value="skip">{t('csvSkipDuplicates')}</option>
+                  <option value="update">{t('csvUpdateDuplicates')}</option>
+                </select>
+              </div>
+              <label className="flex items-center md:pt-5"><input type="checkbox" className="mr-2" checked={createMissingPlans} onChange={e => setCreateMissingPlans(e.target.checked)}/> {t('csvCreateMissingPlans')}</label>
+            </div>
+            <div>
+              <p className="text-sm font-bold mb-2">{t('csvSummary', counts)}</p>
+              <div className="overflow-x-auto border rounded">
+                <table className="min-w-full text-xs text-left">
+                  <thead className="bg-gray-50 text-gray-600"><tr><th className="p-2">{t('status')}</th><th className="p-2">{t('fullName')}</th><th className="p-2">WhatsApp</th><th className="p-2">{t('planName')}</th><th className="p-2">{t('planDue')}</th><th className="p-2">{t('value')}</th></tr></thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {preview.slice(0, 50).map((row, i) => (
+                      <tr key={i}>
+                        <td className="p-2"><span className={`px-2 py-0.5 rounded font-bold ${statusStyle[row.status]}`}>{statusLabel[row.status]}</span></td>
+                        <td className="p-2">{row.name}</td>
+                        <td className="p-2">{row.whatsapp}</td>
+                        <td className="p-2">{row.planName}{row.planName && !row.plan && (row.planPrice ? <span className="ml-1 text-blue-600">({t('csvNewPlan')} R$ {row.planPrice.toFixed(2)})</span> : <span className="ml-1 text-red-600">({t('csvMissingPlanPrice')})</span>)}</td>
+                        <td className="p-2">{row.dueDate ? parseLocalDate(row.dueDate).toLocaleDateString() : row.dueDate === undefined && <span className="text-red-600">{t('csvInvalidDate')}</span>}</td>
+                        <td className="p-2">{row.amountOwed !== undefined && `R$ ${row.amountOwed.toFixed(2)}`}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {preview.length > 50 && <p className="text-xs text-gray-400 mt-1">{t('csvPreviewLimit', { shown: 50, total: preview.length })}</p>}
+            </div>
+          </div>
+        )}
+        <div className="flex space-x-2 mt-4">
+          {rows.length > 0 && <button onClick={handleImport} disabled={counts.new + toUpdate === 0} className="flex-1 bg-brand-blue text-white p-3 rounded font-bold disabled:opacity-50">{t('csvImportButton')} ({counts.new + toUpdate})</button>}
+          <button onClick={handleClose} className="flex-1 bg-gray-200 text-gray-800 p-3 rounded">{t('cancel')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const SplashScreen = ({ onFinish }: { onFinish: () => void }) => {
   const { data, t } = useContext(AppContext);
   useEffect(() => { setTimeout(onFinish, 5000); }, [onFinish]);
@@ -318,15 +2000,17 @@ const SplashScreen = ({ onFinish }: { onFinish: () => void }) => {
 // --- Views ---
 
 const Dashboard = () => {
-  const { data, isLicenseValid, t, updateClient } = useContext(AppContext);
+  const { data, isLicenseValid, t, recordPayment } = useContext(AppContext);
   const { clients, accountsPayable, settings } = data;
   const [paymentFilter, setPaymentFilter] = useState<'today' | '7days' | '30days' | 'overdue'>('overdue');
   const [monitoringModal, setMonitoringModal] = useState<Client | null>(null);
   const [showMsgModal, setShowMsgModal] = useState<Client | null>(null);
   const [showPayModal, setShowPayModal] = useState<Client | null>(null);
-  const [showPaymentHistory, setShowPaymentHistory] = useState(false);
+  const [receipt, setReceipt] = useState<{ clientId: string; entryId: string } | null>(null);
+  const [detailTab, setDetailTab] = useState<'details' | 'payments' | 'messages'>('details');
   const [showUrgentList, setShowUrgentList] = useState(false);
   const [showUrgentAccountsList, setShowUrgentAccountsList] = useState(false);
+  const [showReminders, setShowReminders] = useState(false);
 
   // Trial Logic
   const installDate = new Date(data.settings.installDate || new Date());
@@ -339,20 +2023,20 @@ const Dashboard = () => {
     const targetDate = parseLocalDate(client.paymentDate || client.dueDate);
     const diffDays = Math.ceil((targetDate.getTime() - today.getTime()) / (86400000));
     if (diffDays >= 0 && diffDays <= settings.dashboardAlertDays) {
-      const plan = data.plans.find(p => p.id === client.planId);
-      return acc + (client.amountOwed ?? (plan?.price || 0));
+      return acc + (client.amountOwed ?? getClientRecurringPrice(client, data.plans));
     }
     return acc;
   }, 0);
 
   const urgentDays = settings.dashboardUrgentDays || 1;
-  const urgentClients = clients.filter(c => {
-    const due = parseLocalDate(c.dueDate);
-    if(c.dueTime) { const [h,m] = c.dueTime.split(':'); due.setHours(Number(h), Number(m)); } 
+  // One alert per expiring line, so a client with two screens due shows up twice
+  const urgentLines = clients.flatMap(c => getActiveSubscriptions(c).filter(s => {
+    const due = parseLocalDate(s.dueDate);
+    if(s.dueTime) { const [h,m] = s.dueTime.split(':'); due.setHours(Number(h), Number(m)); } 
     else due.setHours(23,59,59);
     const diff = due.getTime() - new Date().getTime();
     return diff > 0 && diff <= (urgentDays * 86400000);
-  });
+  }).map(subscription => ({ client: c, subscription })));
 
   const accountsUrgentDays = settings.dashboardAccountsDays || 1;
   const urgentAccounts = accountsPayable.filter(acc => {
@@ -364,6 +2048,8 @@ const Dashboard = () => {
     });
   });
 
+  const pendingReminders = getPendingReminders(data);
+
   const filteredPaymentClients = clients.filter(client => {
     if (client.paymentStatus === 'paid') return false;
     const targetDate = parseLocalDate(client.paymentDate || client.dueDate);
@@ -406,14 +2092,14 @@ const Dashboard = () => {
         </div>
         {settings.dashboardShowClientAlerts && (
          <div 
-            onClick={() => { if(urgentClients.length > 0) setShowUrgentList(true); }}
-            className={`bg-white p-4 rounded-lg shadow border-l-4 border-red-500 cursor-pointer ${urgentClients.length > 0 ? 'animate-pulse ring-2 ring-red-300' : ''}`}
+            onClick={() => { if(urgentLines.length > 0) setShowUrgentList(true); }}
+            className={`bg-white p-4 rounded-lg shadow border-l-4 border-red-500 cursor-pointer ${urgentLines.length > 0 ? 'animate-pulse ring-2 ring-red-300' : ''}`}
          >
           <div className="flex justify-between items-center">
             <h3 className="text-red-600 text-sm font-bold">{urgentDays === 1 ? t('urgent24h') : t('urgentDays', {days: urgentDays})}</h3>
             <Clock className="text-red-500" size={20} />
           </div>
-          <p className="text-2xl font-bold mt-2 text-red-700">{urgentClients.length} {t('clients')}</p>
+          <p className="text-2xl font-bold mt-2 text-red-700">{new Set(urgentLines.map(l => l.client.id)).size} {t('clients')}</p>
         </div>
         )}
         {settings.dashboardShowAccounts && (
@@ -428,8 +2114,17 @@ const Dashboard = () => {
           <p className="text-2xl font-bold mt-2 text-red-700">{urgentAccounts.length}</p>
         </div>
         )}
+        <div onClick={() => setShowReminders(true)} className={`bg-white p-4 rounded-lg shadow border-l-4 border-blue-500 cursor-pointer ${pendingReminders.length > 0 ? 'ring-2 ring-blue-200' : ''}`}>
+          <div className="flex justify-between items-center">
+            <h3 className="text-blue-700 text-sm font-bold">{t('remindersToday')}</h3>
+            <MessageSquare className="text-blue-500" size={20} />
+          </div>
+          <p className="text-2xl font-bold mt-2 text-blue-800">{pendingReminders.length}</p>
+        </div>
       </div>
 
+      {settings.dashboardShowBirthdays && <BirthdayCard />}
+
       {settings.dashboardShowPaymentMonitoring && (
         <div className="bg-white rounded-lg shadow mt-6">
           <div className="p-4 border-b flex flex-col md:flex-row justify-between items-center">
@@ -450,11 +2145,14 @@ const Dashboard = () => {
                   const style = diff < 0 ? "text-red-600 animate-pulse font-bold" : diff === 0 ? "text-orange-500 font-bold" : "text-green-600 font-bold";
                   return (
                     <tr key={client.id} className="cursor-pointer hover:bg-gray-50">
-                      <td className={`p-3 ${style}`} onClick={() => { setMonitoringModal(client); setShowPaymentHistory(false); }}>{client.name}</td>
+                      <td className="p-3" onClick={() => { setMonitoringModal(client); setDetailTab('details'); }}>
+                        <span className={style}>{client.name}</span>
+                        {getLastMessageHint(client, t) && <span className="block text-xs text-gray-500">{getLastMessageHint(client, t)}</span>}
+                      </td>
                       <td className="p-3">R$ {(client.amountOwed ?? 0).toFixed(2)}</td>
                       <td className="p-3">{parseLocalDate(client.paymentDate || client.dueDate).toLocaleDateString('pt-BR')}</td>
                       <td className="p-3">
-                        <button onClick={(e) => { e.stopPropagation(); setMonitoringModal(client); setShowPaymentHistory(false); }} className="bg-brand-blue text-white text-xs px-2 py-1 rounded">
+                        <button onClick={(e) => { e.stopPropagation(); setMonitoringModal(client); setDetailTab('details'); }} className="bg-brand-blue text-white text-xs px-2 py-1 rounded">
                            {t('charge')}
                         </button>
                       </td>
@@ -472,7 +2170,7 @@ const Dashboard = () => {
         <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
            <div className="bg-white rounded-lg p-6 w-full max-w-sm">
               <h3 className="font-bold text-lg mb-4 text-center">Detalhes da Cobrança</h3>
-              {!showPaymentHistory ? (
+              {detailTab === 'details' ? (
                 <>
                   <p className="mb-2"><strong>Nome:</strong> {monitoringModal.name}</p>
                   <p className="mb-2"><strong>Status:</strong> <span className="text-red-600 font-bold">Devendo</span></p>
@@ -484,26 +2182,24 @@ const Dashboard = () => {
                   <button onClick={() => { setShowPayModal(monitoringModal); setMonitoringModal(null); }} className="w-full bg-blue-600 text-white p-3 rounded font-bold mb-3 flex items-center justify-center">
                      <CreditCard className="mr-2" /> Realizar Pagamento
                   </button>
-                   <button onClick={() => setShowPaymentHistory(true)} className="w-full bg-indigo-50 text-indigo-700 p-3 rounded font-bold mb-3 border border-indigo-100">
+                   <button onClick={() => setDetailTab('payments')} className="w-full bg-indigo-50 text-indigo-700 p-3 rounded font-bold mb-3 border border-indigo-100">
                      Todos os Pagamentos
                   </button>
+                   <button onClick={() => setDetailTab('messages')} className="w-full bg-green-50 text-green-700 p-3 rounded font-bold mb-3 border border-green-100">
+                     {t('messageHistory')}
+                  </button>
                 </>
+              ) : detailTab === 'messages' ? (
+                <div className="max-h-80 overflow-y-auto">
+                   <h4 className="font-bold mb-2 text-sm text-gray-500">{t('messageHistory')}</h4>
+                   <MessageLogTimeline client={data.clients.find(c => c.id === monitoringModal.id) || monitoringModal} />
+                   <button onClick={() => setDetailTab('details')} className="w-full bg-gray-100 text-gray-700 p-2 rounded font-bold mt-4 text-sm">{t('back')}</button>
+                </div>
               ) : (
                 <div className="max-h-60 overflow-y-auto">
-                   <h4 className="font-bold mb-2 text-sm text-gray-500">Histórico de Pagamentos</h4>
-                   {monitoringModal.paymentHistory && monitoringModal.paymentHistory.length > 0 ? (
-                      <ul className="space-y-2 text-sm">
-                         {monitoringModal.paymentHistory.map((h, i) => (
-                           <li key={i} className="bg-green-50 p-2 rounded flex justify-between border border-green-100">
-                             <span>{new Date(h.date).toLocaleDateString()}</span>
-                             <span className="font-bold text-green-700">R$ {h.amount.toFixed(2)}</span>
-                           </li>
-                         ))}
-                      </ul>
-                   ) : (
-                     <p className="text-sm text-gray-400 italic text-center py-4">Nenhum pagamento registrado.</p>
-                   )}
-                   <button onClick={() => setShowPaymentHistory(false)} className="w-full bg-gray-100 text-gray-700 p-2 rounded font-bold mt-4 text-sm">Voltar</button>
+                   <h4 className="font-bold mb-2 text-sm text-gray-500">{t('ledger')}</h4>
+                   <LedgerView clientId={monitoringModal.id} />
+                   <button onClick={() => setDetailTab('details')} className="w-full bg-gray-100 text-gray-700 p-2 rounded font-bold mt-4 text-sm">Voltar</button>
                 </div>
               )}
               
@@ -515,47 +2211,29 @@ const Dashboard = () => {
       )}
 
       {/* Message Modal Reused */}
-      {showMsgModal && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
-           <div className="bg-white rounded-lg p-6 w-full max-w-sm">
-              <h3 className="font-bold text-lg mb-4">{t('sendMessage')}</h3>
-              <p className="text-gray-600 mb-4">{t('client')}: {showMsgModal.name}</p>
-              <button onClick={() => { window.open(`https://wa.me/${showMsgModal.whatsapp}`, '_blank'); setShowMsgModal(null); }} className="w-full bg-green-600 text-white p-3 rounded font-bold mb-2 flex justify-center items-center"><MessageCircle className="mr-2"/> {t('writePersonalized')}</button>
-              <button onClick={() => { 
-                const templates = data.messageTemplates;
-                if(templates.length === 0) alert("Nenhum modelo cadastrado.");
-                else {
-                   const t = templates[0];
-                   let text = t.content.replace('{nome}', showMsgModal.name).replace('{data}', parseLocalDate(showMsgModal.dueDate).toLocaleDateString());
-                   window.open(`https://wa.me/${showMsgModal.whatsapp}?text=${encodeURIComponent(text)}`, '_blank');
-                   setShowMsgModal(null);
-                }
-              }} className="w-full bg-blue-600 text-white p-3 rounded font-bold mb-2 flex justify-center items-center"><FileText className="mr-2"/> {t('useTemplate')}</button>
-              <button onClick={() => setShowMsgModal(null)} className="w-full bg-gray-200 text-gray-800 p-3 rounded">{t('cancel')}</button>
-           </div>
-        </div>
-      )}
+      <SendMessageModal client={showMsgModal} onClose={() => setShowMsgModal(null)} />
 
       {/* Payment Modal Reused */}
-      <PaymentModal isOpen={!!showPayModal} onClose={() => setShowPayModal(null)} totalValue={showPayModal?.amountOwed || 0} title={`${t('payAccount')} - ${showPayModal?.name}`} onConfirm={(type: any, amount: any) => {
-         const paidAmount = type === 'total' ? showPayModal!.amountOwed || 0 : amount;
-         const newHistory = [...(showPayModal!.paymentHistory || []), { date: new Date().toISOString(), amount: paidAmount }];
-         
-         if (type === 'total') updateClient({...showPayModal!, paymentStatus: 'paid', amountOwed: 0, paymentHistory: newHistory});
-         else updateClient({...showPayModal!, amountOwed: (showPayModal!.amountOwed || 0) - amount, paymentHistory: newHistory});
+      <PaymentModal isOpen={!!showPayModal} withMethod onClose={() => setShowPayModal(null)} totalValue={showPayModal?.amountOwed || 0} title={`${t('payAccount')} - ${showPayModal?.name}`} onConfirm={(type: any, amount: any, details: any) => {
+         if (amount > 0) setReceipt({ clientId: showPayModal!.id, entryId: recordPayment(showPayModal!, amount, details).id });
          setShowPayModal(null);
       }} />
 
+      <ReceiptModal target={receipt} onClose={() => setReceipt(null)} />
+
+      <ReminderQueueModal isOpen={showReminders} onClose={() => setShowReminders(false)} />
+
       {/* Urgent List Modal - Clients */}
       {showUrgentList && (
         <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
            <div className="bg-white rounded-lg p-6 w-full max-w-sm max-h-[80vh] flex flex-col">
-              <h3 className="font-bold text-lg mb-4 text-red-600">{t('clientAlerts')} ({urgentClients.length})</h3>
+              <h3 className="font-bold text-lg mb-4 text-red-600">{t('clientAlerts')} ({urgentLines.length})</h3>
               <div className="overflow-y-auto flex-1 space-y-3">
-                 {urgentClients.map(c => (
-                    <div key={c.id} className="bg-red-50 p-3 rounded border border-red-100">
+                 {urgentLines.map(({ client: c, subscription: s }) => (
+                    <div key={s.id} className="bg-red-50 p-3 rounded border border-red-100">
                        <p className="font-bold">{c.name}</p>
-                       <p className="text-xs text-gray-600 mb-2">{t('planDue')}: {parseLocalDate(c.dueDate).toLocaleDateString()}</p>
+                       {c.subscriptions.length > 1 && <p className="text-xs text-gray-500">{describeSubscription(s, data.plans)}</p>}
+                       <p className="text-xs text-gray-600 mb-2">{t('planDue')}: {parseLocalDate(s.dueDate).toLocaleDateString()}{s.dueTime && ` ${s.dueTime}`}</p>
                        <button onClick={() => { setShowMsgModal(c); setShowUrgentList(false); }} className="w-full bg-green-500 text-white text-xs font-bold py-2 rounded flex items-center justify-center hover:bg-green-600">
                           <MessageCircle size={14} className="mr-1"/> {t('renewMessage')}
                        </button>
@@ -582,7 +2260,7 @@ const Dashboard = () => {
                     return urgentInstallments.map(inst => (
                        <div key={`${acc.id}-${inst.id}`} className="bg-red-50 p-2 rounded border border-red-100">
                           <p className="font-bold">{acc.name}</p>
-                          <p className="text-xs text-gray-600">{t('installments')} {inst.number}: {parseLocalDate(inst.dueDate).toLocaleDateString()} - R$ {inst.value.toFixed(2)}</p>
+                          <p className="text-xs text-gray-600">{t('installments')} {inst.number}: {parseLocalDate(inst.dueDate).toLocaleDateString()} - R$ {getInstallmentCharges(acc, inst).balance.toFixed(2)}</p>
                        </div>
                     ));
                  })}
@@ -597,29 +2275,35 @@ const Dashboard = () => {
 };
 
 const ClientList = () => {
-  const { data, addClient, updateClient, deleteClient, isLicenseValid, addPlan, t } = useContext(AppContext);
+  const { data, addClient, updateClient, deleteClient, isLicenseValid, addPlan, addLedgerEntries, applyCoupon, sendWhatsApp, t } = useContext(AppContext);
   const [isEditing, setIsEditing] = useState(false);
+  const [couponCode, setCouponCode] = useState('');
+  const [lines, setLines] = useState<Subscription[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [editingClient, setEditingClient] = useState<Partial<Client>>({});
   const [searchTerm, setSearchTerm] = useState('');
   const [filterPlan, setFilterPlan] = useState('all');
   const [newInlinePlan, setNewInlinePlan] = useState({ name: '', price: '' });
   const [messageModal, setMessageModal] = useState<{isOpen: boolean, client: Client | null}>({isOpen: false, client: null});
+  const [showCsvImport, setShowCsvImport] = useState(false);
 
-  const todayStr = new Date().toISOString().split('T')[0];
+  const todayStr = toDateStr(new Date());
   const filtered = data.clients.filter(c => 
-    (c.name.toLowerCase().includes(searchTerm.toLowerCase()) || c.whatsapp.includes(searchTerm)) && 
-    (filterPlan === 'all' || c.planId === filterPlan)
+    matchesClientSearch(c, searchTerm) && 
+    (filterPlan === 'all' || c.subscriptions.some(s => s.planId === filterPlan))
   );
 
   const handleAddNew = () => {
-    setEditingClient({ paymentStatus: 'pending', dueDate: todayStr, paymentDate: todayStr });
+    setEditingClient({ paymentStatus: 'pending', paymentDate: todayStr });
+    setLines([newSubscription('', todayStr)]);
     setIsEditing(false);
     setShowForm(true);
   };
 
   const handleEdit = (client: Client) => {
     setEditingClient(client);
+    setLines(client.subscriptions);
+    setCouponCode('');
     setIsEditing(true);
     setShowForm(true);
   };
@@ -628,44 +2312,67 @@ const ClientList = () => {
     const missing = [];
     if (!editingClient.name) missing.push(t('fullName'));
     if (!editingClient.whatsapp) missing.push(t('whatsapp'));
-    let pid = editingClient.planId, amount = 0;
-    if (pid === 'new_plan') {
-       if (!newInlinePlan.name || !newInlinePlan.price) missing.push(t('newPlanTitle'));
-    } else if (!pid) missing.push(t('selectPlan'));
-    if (!editingClient.dueDate) missing.push(t('planDue'));
+    if (lines.some(l => l.planId === 'new_plan') && (!newInlinePlan.name || !newInlinePlan.price)) missing.push(t('newPlanTitle'));
+    if (lines.some(l => !l.planId)) missing.push(t('selectPlan'));
+    if (lines.some(l => !l.dueDate)) missing.push(t('planDue'));
     if (editingClient.paymentStatus === 'pending' && !editingClient.paymentDate) missing.push(t('paymentDatePrediction'));
     
     if (missing.length > 0) { alert(t('missingFields', { fields: missing.join(', ') })); return; }
 
-    if (pid === 'new_plan') {
-       const newPlan: Plan = { id: Date.now().toString(), name: newInlinePlan.name, price: Number(newInlinePlan.price), description: '' };
-       addPlan(newPlan);
-       pid = newPlan.id;
-       amount = newPlan.price;
-    } else {
-       const p = data.plans.find(pl => pl.id === pid);
-       amount = p ? p.price : 0;
-    }
+    // Every line marked "new plan" shares the one plan typed inline
+    const newPlan = lines.some(l => l.planId === 'new_plan') ? createPlan(newInlinePlan.name, Number(newInlinePlan.price)) : null;
+    if (newPlan) addPlan(newPlan);
+    const plans = newPlan ? [...data.plans, newPlan] : data.plans;
+    const subscriptions = lines.map(l => {
+      const line = l.planId === 'new_plan' ? { ...l, planId: newPlan!.id, priceOverrides: undefined } : l;
+      return { ...line, periodId: getClientPeriod(line, plans.find(pl => pl.id === line.planId))?.id };
+    });
+    const amount = getClientRecurringPrice({ subscriptions }, plans);
 
     const clientData: Client = {
       id: editingClient.id || Date.now().toString(),
       name: editingClient.name!,
       whatsapp: editingClient.whatsapp!,
-      planId: pid!,
-      dueDate: editingClient.dueDate!,
-      dueTime: editingClient.dueTime,
+      ...subscriptionFields(subscriptions),
       paymentDate: editingClient.paymentDate,
       birthDate: editingClient.birthDate || '',
-      paymentStatus: editingClient.paymentStatus || 'pending',
+      paymentStatus: 'pending',
       profileImage: editingClient.profileImage,
       notes: editingClient.notes || '',
       createdAt: editingClient.createdAt || todayStr,
-      amountOwed: editingClient.amountOwed !== undefined && pid !== 'new_plan' ? editingClient.amountOwed : amount,
-      paymentHistory: editingClient.paymentHistory || []
+      ledger: [],
+      referredBy: editingClient.referredBy || undefined
     };
 
-    if (isEditing) { updateClient(clientData); setShowForm(false); }
-    else { addClient(clientData); if (createAnother) { setEditingClient({paymentStatus: 'pending', dueDate: todayStr, paymentDate: todayStr}); setNewInlinePlan({name:'',price:''}); } else setShowForm(false); }
+    if (isEditing) {
+      // Fields the form doesn't edit (ledger, message log, discounts, Pix charges) may have changed while it was open
+      const stored = data.clients.find(c => c.id === clientData.id);
+      updateClient(withLedger({ ...stored, ...clientData }, stored?.ledger || []));
+      setShowForm(false);
+      return;
+    }
+    addClient(withLedger(clientData, amount > 0 ? [newLedgerEntry('charge', amount, { description: t('openingBalance') })] : []));
+    // Recorded like any other payment so it gets a receipt number and credits the referrer
+    if (amount > 0 && editingClient.paymentStatus === 'paid') addLedgerEntries(clientData.id, [newLedgerEntry('payment', amount)]);
+    if (createAnother) { setEditingClient({paymentStatus: 'pending', paymentDate: todayStr}); setLines([newSubscription('', todayStr)]); setNewInlinePlan({name:'',price:''}); } else setShowForm(false);
+  };
+
+  // Sends the line as edited in the form, so corrected credentials can go out before saving
+  const handleSendAccess = (line: Subscription) => {
+    const client = data.clients.find(c => c.id === editingClient.id);
+    const template = data.messageTemplates.find(m => m.type === 'access_data');
+    if (!client) return;
+    if (!template) { alert(t('noAccessTemplate')); return; }
+    sendWhatsApp(client, renderTemplateForClient(template, client, data, line), { context: 'access', templateId: template.id });
+  };
+
+  const handleExportCsv = () => {
+    const rows = filtered.map(c => [
+      c.name, c.whatsapp, getActiveSubscriptions(c).map(s => data.plans.find(p => p.id === s.planId)?.name).filter(Boolean).join(' + '), c.dueDate, c.dueTime || '', c.paymentDate || '',
+      c.birthDate, c.paymentStatus === 'paid' ? t('paid') : t('toPay'), (c.amountOwed ?? 0).toFixed(2).replace('.', ','), c.createdAt || '', c.notes || ''
+    ]);
+    const header = ['Nome', 'WhatsApp', 'Plano', 'Vencimento', 'Hora', 'Data Pagamento', 'Nascimento', 'Status', 'Valor Devido', 'Cadastro', 'Observações'];
+    downloadFile(toCsv([header, ...rows]), `clientes-${todayStr}.csv`, 'text/csv;charset=utf-8');
   };
 
   const handleImportContact = async () => {
@@ -701,131 +2408,601 @@ const ClientList = () => {
           
           <div className="grid grid-cols-2 gap-2">
             <div><label className="text-xs text-gray-500">{t('birthDate')}</label><input type="date" className="w-full p-2 border rounded" value={editingClient.birthDate||''} onChange={e=>setEditingClient({...editingClient, birthDate:e.target.value})} /></div>
-            <div><label className="text-xs text-gray-500">{t('status')}</label><select className="w-full p-2 border rounded" value={editingClient.paymentStatus||'pending'} onChange={e=>setEditingClient({...editingClient, paymentStatus:e.target.value as any})}><option value="pending">{t('toPay')}</option><option value="paid">{t('paid')}</option></select></div>
+            {isEditing ? (
+              <div><label className="text-xs text-gray-500">{t('balance')}</label><p className="p-2 font-bold">R$ {(data.clients.find(c => c.id === editingClient.id)?.amountOwed ?? 0).toFixed(2)}</p></div>
+            ) : (
+              <div><label className="text-xs text-gray-500">{t('status')}</label><select className="w-full p-2 border rounded" value={editingClient.paymentStatus||'pending'} onChange={e=>setEditingClient({...editingClient, paymentStatus:e.target.value as any})}><option value="pending">{t('toPay')}</option><option value="paid">{t('paid')}</option></select></div>
+            )}
           </div>
 
           {editingClient.paymentStatus === 'pending' && (
              <div><label className="text-xs text-gray-500">{t('paymentDatePrediction')} *</label><input type="date" className="w-full p-2 border rounded" value={editingClient.paymentDate||''} onChange={e=>setEditingClient({...editingClient, paymentDate:e.target.value})} /></div>
           )}
 
-          <select className="w-full p-2 border rounded" value={editingClient.planId||''} onChange={e=>setEditingClient({...editingClient, planId:e.target.value})}>
-             <option value="">{t('selectPlan')} *</option>
-             {data.plans.map(p => <option key={p.id} value={p.id}>{p.name} - R$ {p.price}</option>)}
-             <option value="new_plan" className="text-blue-600 font-bold">{t('newPlan')}</option>
-          </select>
-          {editingClient.planId === 'new_plan' && (
+          {lines.map((line, index) => {
+             const plan = data.plans.find(p => p.id === line.planId);
+             const period = getClientPeriod(line, plan);
+             const updateLine = (changes: Partial<Subscription>) => setLines(ls => ls.map(l => l.id === line.id ? { ...l, ...changes } : l));
+             const setOverride = (value: string) => {
+               const { [period!.id]: _, ...others } = line.priceOverrides || {};
+               updateLine({ priceOverrides: value === '' ? others : { ...others, [period!.id]: Number(value) } });
+             };
+             return (
+               <div key={line.id} className="border rounded p-3 space-y-2 bg-gray-50">
+                 <div className="flex justify-between items-center">
+                   <span className="text-xs font-bold text-gray-600">{t('lineNumber', { n: index + 1 })}</span>
+                   {lines.length > 1 && <button onClick={() => setLines(ls => ls.filter(l => l.id !== line.id))} title={t('removeLine')} className="text-red-500"><X size={16}/></button>}
+                 </div>
+                 <select className="w-full p-2 border rounded bg-white" value={line.planId} onChange={e=>updateLine({ planId: e.target.value, periodId: undefined, priceOverrides: undefined })}>
+                    <option value="">{t('selectPlan')} *</option>
+                    {data.plans.filter(p => !p.archived || p.id === line.planId).map(p => <option key={p.id} value={p.id}>{p.name} - R$ {getPlanPrice(p).toFixed(2)}</option>)}
+                    <option value="new_plan" className="text-blue-600 font-bold">{t('newPlan')}</option>
+                 </select>
+                 {plan && period && (
+                   <div className="grid grid-cols-2 gap-2">
+                     {plan.periods.length > 1 ? (
+                       <div><label className="text-xs text-gray-500">{t('billingPeriod')}</label>
+                         <select className="w-full p-2 border rounded bg-white" value={period.id} onChange={e=>updateLine({ periodId: e.target.value })}>
+                           {plan.periods.map(p => <option key={p.id} value={p.id}>{describePeriod(p, t)} - R$ {getPeriodPrice(plan, p).toFixed(2)}</option>)}
+                         </select>
+                       </div>
+                     ) : <div />}
+                     <div><label className="text-xs text-gray-500">{t('specialPrice')}</label>
+                       <input type="number" className="w-full p-2 border rounded" placeholder={t('specialPriceHint', { price: getPeriodPrice(plan, period).toFixed(2) })} value={line.priceOverrides?.[period.id] ?? ''} onChange={e=>setOverride(e.target.value)} />
+                     </div>
+                   </div>
+                 )}
+                 <div className="grid grid-cols-2 gap-2">
+                   <div><label className="text-xs text-gray-500">{t('planDue')} *</label><input type="date" className="w-full p-2 border rounded" value={line.dueDate} onChange={e=>updateLine({ dueDate: e.target.value, dueDay: undefined })} /></div>
+                   <div><label className="text-xs text-gray-500">{t('time')}</label><input type="time" className="w-full p-2 border rounded" value={line.dueTime||''} onChange={e=>updateLine({ dueTime: e.target.value })} /></div>
+                 </div>
+                 <div className="bg-white border rounded p-2 space-y-2">
+                   <p className="text-xs font-bold text-gray-500 flex items-center"><Key size={12} className="mr-1"/> {t('accessData')}</p>
+                   {([['username', 'panelUsername'], ['password', 'panelPassword'], ['serverUrl', 'serverUrl']] as const).map(([field, label]) => (
+                     <div key={field} className="flex gap-1">
+                       <input className="flex-1 min-w-0 p-2 border rounded text-sm" placeholder={t(label)} value={line[field]||''} onChange={e=>updateLine({ [field]: e.target.value } as Partial<Subscription>)} />
+                       <CopyButton value={line[field]} />
+                     </div>
+                   ))}
+                   {(line.devices || []).map(device => {
+                     const updateDevice = (changes: Partial<Device>) => updateLine({ devices: line.devices!.map(d => d.id === device.id ? { ...d, ...changes } : d) });
+                     return (
+                       <div key={device.id} className="grid grid-cols-2 gap-1 border-t pt-2">
+                         <select className="p-2 border rounded bg-white text-sm" value={device.type} onChange={e=>updateDevice({ type: e.target.value as DeviceType })}>
+                           {(Object.keys(DEVICE_TYPE_LABELS) as DeviceType[]).map(type => <option key={type} value={type}>{t(DEVICE_TYPE_LABELS[type])}</option>)}
+                         </select>
+                         <div className="flex gap-1">
+                           <input className="flex-1 min-w-0 p-2 border rounded text-sm font-mono" placeholder="MAC" value={device.mac||''} onChange={e=>updateDevice({ mac: e.target.value })} onBlur={e=>updateDevice({ mac: normalizeMac(e.target.value) || undefined })} />
+                           <CopyButton value={device.mac} />
+                         </div>
+                         <input className="p-2 border rounded text-sm" placeholder={t('playerApp')} value={device.app||''} onChange={e=>updateDevice({ app: e.target.value })} />
+                         <div className="flex gap-1">
+                           <input className="flex-1 min-w-0 p-2 border rounded text-sm" placeholder={t('deviceLabel')} value={device.label||''} onChange={e=>updateDevice({ label: e.target.value })} />
+                           <button onClick={() => updateLine({ devices: line.devices!.filter(d => d.id !== device.id) })} title={t('removeDevice')} className="p-2 text-red-500"><X size={14}/></button>
+                         </div>
+                       </div>
+                     );
+                   })}
+                   <div className="flex gap-2">
+                     <button onClick={() => updateLine({ devices: [...(line.devices || []), newDevice()] })} className="flex-1 bg-gray-100 text-gray-700 p-2 rounded text-xs font-bold flex items-center justify-center"><Monitor size={14} className="mr-1"/> {t('addDevice')}</button>
+                     {isEditing && <button onClick={() => handleSendAccess(line)} className="flex-1 bg-green-600 text-white p-2 rounded text-xs font-bold flex items-center justify-center"><MessageCircle size={14} className="mr-1"/> {t('sendAccessData')}</button>}
+                   </div>
+                 </div>
+                 <div className="grid grid-cols-2 gap-2">
+                   <select className="w-full p-2 border rounded bg-white" value={line.status} onChange={e=>updateLine({ status: e.target.value as Subscription['status'] })}>
+                     {(Object.keys(SUBSCRIPTION_STATUS_LABELS) as Subscription['status'][]).map(s => <option key={s} value={s}>{t(SUBSCRIPTION_STATUS_LABELS[s])}</option>)}
+                   </select>
+                   <select className="w-full p-2 border rounded bg-white" value={line.supplierId||''} onChange={e=>updateLine({ supplierId: e.target.value || undefined })} title={t('supplier')}>
+                     <option value="">{t('noSupplier')}</option>
+                     {data.suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                   </select>
+                 </div>
+               </div>
+             );
+          })}
+          <button onClick={() => setLines(ls => [...ls, newSubscription('', todayStr)])} className="w-full bg-gray-100 text-gray-700 p-2 rounded text-sm font-semibold flex items-center justify-center"><Plus size={16} className="mr-1"/> {t('addLine')}</button>
+          {lines.some(l => l.planId === 'new_plan') && (
              <div className="bg-blue-50 p-3 rounded border border-blue-200">
                 <input className="w-full p-2 border rounded mb-2" placeholder={t('planNamePlaceholder')} value={newInlinePlan.name} onChange={e=>setNewInlinePlan({...newInlinePlan, name:e.target.value})}/>
                 <input type="number" className="w-full p-2 border rounded" placeholder={t('planPricePlaceholder')} value={newInlinePlan.price} onChange={e=>setNewInlinePlan({...newInlinePlan, price:e.target.value})}/>
              </div>
           )}
 
-          <div className="grid grid-cols-2 gap-2">
-            <div><label className="text-xs text-gray-500">{t('planDue')} *</label><input type="date" className="w-full p-2 border rounded" value={editingClient.dueDate||''} onChange={e=>setEditingClient({...editingClient, dueDate:e.target.value})} /></div>
-            <div><label className="text-xs text-gray-500">{t('time')}</label><input type="time" className="w-full p-2 border rounded" value={editingClient.dueTime||''} onChange={e=>setEditingClient({...editingClient, dueTime:e.target.value})} /></div>
-          </div>
+          <div><label className="text-xs text-gray-500">{t('referredBy')}</label>
+            <select className="w-full p-2 border rounded bg-white" value={editingClient.referredBy||''} onChange={e=>setEditingClient({...editingClient, referredBy:e.target.value})}>
+              <option value="">{t('noReferrer')}</option>
+              {data.clients.filter(c => c.id !== editingClient.id).sort((a, b) => a.name.localeCompare(b.name)).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </div>
+
+          {isEditing && (() => {
+             const discounts = data.clients.find(c => c.id === editingClient.id)?.renewalDiscounts || [];
+             const handleApplyCoupon = () => {
+               const error = applyCoupon(editingClient as Client, couponCode);
+               if (error) alert(t(error)); else setCouponCode('');
+             };
+             return (
+               <div className="bg-green-50 p-3 rounded border border-green-200 space-y-2">
+                 <p className="text-xs font-bold text-green-800">{t('nextRenewalDiscounts')}</p>
+                 {discounts.length === 0 ? <p className="text-xs text-gray-500 italic">{t('noDiscounts')}</p> : discounts.map((d, i) => (
+                   <p key={i} className="text-sm flex justify-between"><span>{describeDiscount(d, t)}</span><span className="font-bold text-green-700">- {formatDiscount(d)}</span></p>
+                 ))}
+                 <div className="flex gap-2">
+                   <input className="flex-1 p-2 border rounded uppercase" placeholder={t('couponCode')} value={couponCode} onChange={e=>setCouponCode(e.target.value)} />
+                   <button onClick={handleApplyCoupon} disabled={!couponCode.trim()} className="bg-green-600 text-white px-3 rounded text-sm font-bold disabled:opacity-50">{t('applyCoupon')}</button>
+                 </div>
+               </div>
+             );
+          })()}
+
+          {isEditing && (
+            <div className="border-t pt-4">
+              <h3 className="font-bold text-sm text-gray-600 mb-2 flex items-center"><DollarSign size={16} className="mr-2"/> {t('ledger')}</h3>
+              <div className="max-h-64 overflow-y-auto"><LedgerView clientId={editingClient.id!} /></div>
+            </div>
+          )}
+
+          {isEditing && (
+            <div className="border-t pt-4">
+              <h3 className="font-bold text-sm text-gray-600 mb-2 flex items-center"><MessageSquare size={16} className="mr-2"/> {t('messageHistory')}</h3>
+              <div className="max-h-64 overflow-y-auto"><MessageLogTimeline client={editingClient as Client} /></div>
+            </div>
+          )}
+
+          <div className="flex space-x-2 mt-4">
+             <button onClick={()=>handleSave(false)} className="flex-1 bg-brand-blue text-white p-2 rounded"><Save size={18} className="inline mr-2"/> {t('save')}</button>
+             {!isEditing && <button onClick={()=>handleSave(true)} className="flex-1 bg-green-600 text-white p-2 rounded"><Plus size={18} className="inline mr-2"/> {t('saveAndNew')}</button>}
+             <button onClick={()=>setShowForm(false)} className="flex-1 bg-gray-300 text-gray-800 p-2 rounded">{t('cancel')}</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 pb-20 md:pb-4">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold">{t('manageClients')}</h2>
+        <div className="flex items-center space-x-2">
+          <button onClick={() => setShowCsvImport(true)} title={t('importCsv')} className="p-2 text-blue-600 bg-blue-50 rounded"><Upload size={20}/></button>
+          <button onClick={handleExportCsv} disabled={filtered.length === 0} title={t('exportCsv')} className="p-2 text-blue-600 bg-blue-50 rounded disabled:opacity-50"><Download size={20}/></button>
+          <button onClick={handleAddNew} className="bg-brand-blue text-white p-2 rounded-full shadow-lg"><Plus size={24} /></button>
+        </div>
+      </div>
+      <SearchFilterBar searchTerm={searchTerm} setSearchTerm={setSearchTerm} filterValue={filterPlan} setFilterValue={setFilterPlan} filterOptions={[{value:'all', label:t('allPlans')}, ...data.plans.map(p=>({value:p.id, label:p.name}))]} placeholder={t('searchClientAccess')} />
+      <div className="space-y-3">
+         {filtered.map(client => (
+            <div key={client.id} className="bg-white p-4 rounded shadow flex items-center justify-between">
+               <div className="flex items-center">
+                  <img src={client.profileImage || SPLASH_IMAGE} className="w-10 h-10 rounded-full mr-3 object-cover" />
+                  <div>
+                     <p className="font-bold">{client.name}</p>
+                     <p className="text-xs text-gray-500">{client.subscriptions.map(s => data.plans.find(p => p.id === s.planId)?.name).join(' + ')}</p>
+                     {client.subscriptions.some(s => s.username) && <p className="text-xs text-gray-400 font-mono">{client.subscriptions.map(s => s.username).filter(Boolean).join(', ')}</p>}
+                  </div>
+               </div>
+               <div className="flex space-x-2">
+                  <button onClick={() => setMessageModal({isOpen: true, client})} className="p-2 text-green-600 bg-green-50 rounded"><MessageSquare size={18}/></button>
+                  <button onClick={() => handleEdit(client)} className="p-2 text-blue-600 bg-blue-50 rounded"><Edit2 size={18}/></button>
+                  <button onClick={() => deleteClient(client.id)} className="p-2 text-red-600 bg-red-50 rounded"><Trash2 size={18}/></button>
+               </div>
+            </div>
+         ))}
+      </div>
+      
+      <SendMessageModal client={messageModal.client} onClose={() => setMessageModal({isOpen:false, client:null})} />
+
+      <ClientCsvImportModal isOpen={showCsvImport} onClose={() => setShowCsvImport(false)} />
+    </div>
+  );
+};
+
+const CouponManager = () => {
+  const { data, addCoupon, deleteCoupon, isLicenseValid, t } = useContext(AppContext);
+  const [form, setForm] = useState({ code: '', kind: 'percent' as Coupon['kind'], value: '', validFrom: '', validUntil: '', maxUses: '' });
+
+  const handleAdd = () => {
+    const code = normalizeCouponCode(form.code);
+    if (!code || !(Number(form.value) > 0)) { alert(t('missingFields', { fields: `${t('couponCode')}, ${t('couponValue')}` })); return; }
+    if (data.coupons.some(c => c.code === code)) { alert(t('couponDuplicate', { code })); return; }
+    if (form.kind === 'percent' && Number(form.value) > 100) { alert(t('couponPercentTooHigh')); return; }
+    addCoupon({
+      id: Date.now().toString(),
+      code,
+      kind: form.kind,
+      value: Number(form.value),
+      validFrom: form.validFrom || undefined,
+      validUntil: form.validUntil || undefined,
+      maxUses: Number(form.maxUses) > 0 ? Number(form.maxUses) : undefined,
+      uses: 0,
+      createdAt: new Date().toISOString()
+    });
+    setForm({ ...form, code: '', value: '', maxUses: '' });
+  };
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-xl font-bold mb-4 flex items-center"><Tag className="mr-2" size={20}/> {t('coupons')}</h2>
+      {isLicenseValid && (
+        <div className="bg-white p-4 rounded shadow mb-4 space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            <input className="col-span-3 p-2 border rounded uppercase" placeholder={t('couponCode')} value={form.code} onChange={e=>setForm({...form, code:e.target.value})}/>
+            <select className="p-2 border rounded bg-white" value={form.kind} onChange={e=>setForm({...form, kind:e.target.value as Coupon['kind']})}>
+              <option value="percent">%</option>
+              <option value="fixed">R$</option>
+            </select>
+            <input type="number" min={0} className="p-2 border rounded" placeholder={t('couponValue')} value={form.value} onChange={e=>setForm({...form, value:e.target.value})}/>
+            <input type="number" min={0} className="p-2 border rounded" placeholder={t('couponMaxUses')} value={form.maxUses} onChange={e=>setForm({...form, maxUses:e.target.value})}/>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div><label className="text-xs text-gray-500">{t('validFrom')}</label><input type="date" className="w-full p-2 border rounded" value={form.validFrom} onChange={e=>setForm({...form, validFrom:e.target.value})}/></div>
+            <div><label className="text-xs text-gray-500">{t('validUntil')}</label><input type="date" className="w-full p-2 border rounded" value={form.validUntil} onChange={e=>setForm({...form, validUntil:e.target.value})}/></div>
+          </div>
+          <button onClick={handleAdd} className="w-full bg-brand-blue text-white p-2 rounded font-bold"><Plus size={16} className="inline mr-1"/> {t('addCoupon')}</button>
+        </div>
+      )}
+      <div className="space-y-2">
+        {data.coupons.length === 0 && <p className="text-sm text-gray-400 italic">{t('noCoupons')}</p>}
+        {data.coupons.map(c => {
+          const error = getCouponError(c);
+          return (
+            <div key={c.id} className={`bg-white p-3 rounded shadow flex justify-between items-center ${error ? 'opacity-60' : ''}`}>
+              <div>
+                <p className="font-bold font-mono">{c.code} <span className="font-sans text-green-700">- {formatDiscount(c)}</span></p>
+                <p className="text-xs text-gray-500">
+                  {t('couponUses', { uses: c.uses, max: c.maxUses ?? '∞' })}
+                  {(c.validFrom || c.validUntil) && ` · ${c.validFrom ? parseLocalDate(c.validFrom).toLocaleDateString() : '...'} - ${c.validUntil ? parseLocalDate(c.validUntil).toLocaleDateString() : '...'}`}
+                </p>
+                {error && <p className="text-xs text-red-600 font-semibold">{t(error)}</p>}
+              </div>
+              <button onClick={() => confirm(t('confirmDeleteCoupon', { code: c.code })) && deleteCoupon(c.id)} className="p-2 bg-red-50 text-red-600 rounded"><Trash2 size={18}/></button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const PlanList = () => {
+  const { data, setData, addPlan, updatePlan, deletePlan, isLicenseValid, t } = useContext(AppContext);
+  const [editing, setEditing] = useState<Partial<Plan> | null>(null);
+  const [deleting, setDeleting] = useState<Plan | null>(null);
+  const [reassignTo, setReassignTo] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState(toDateStr(new Date()));
+  const [keepClients, setKeepClients] = useState(false);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+
+  const periods = editing?.periods || [];
+  const setPeriod = (index: number, changes: Partial<PlanPeriod>) =>
+    setEditing({ ...editing, periods: periods.map((p, i) => i === index ? { ...p, ...changes } : p) });
+
+  // The editor shows each period's latest price (including scheduled ones); saving a different
+  // value adds a version to priceHistory instead of overwriting what clients are charged today.
+  const LATEST = '9999-12-31';
+  const original = data.plans.find(p => p.id === editing?.id);
+  const startEditing = (plan: Plan) => {
+    setEditing({ ...plan, periods: plan.periods.map(p => ({ ...p, price: getPeriodPrice(plan, p, LATEST) })) });
+    setEffectiveFrom(toDateStr(new Date()));
+    setKeepClients(false);
+  };
+  const changedPeriods = original ? periods.filter(p => {
+    const before = original.periods.find(op => op.id === p.id);
+    return before && p.price > 0 && p.price !== getPeriodPrice(original, before, LATEST);
+  }) : [];
+  const affectedLines = original ? data.clients.flatMap(c => c.subscriptions).filter(s => {
+    const period = getClientPeriod(s, original);
+    return s.planId === original.id && s.status !== 'cancelled' && period && changedPeriods.some(p => p.id === period.id) && s.priceOverrides?.[period.id] === undefined;
+  }) : [];
+
+  const handleSave = () => {
+    if(!editing?.name) return;
+    const valid = periods.filter(p => p.length > 0 && p.price > 0);
+    if (valid.length === 0) { alert(t('planPeriodRequired')); return; }
+    const base = { description: '', priceHistory: [], ...editing, connections: Math.max(1, editing.connections || 1) } as Plan;
+    if (!original) {
+      addPlan({ ...base, periods: valid, id: Date.now().toString() });
+      setEditing(null);
+      return;
+    }
+
+    const changedAt = new Date().toISOString();
+    const changes: PlanPriceChange[] = changedPeriods.filter(p => valid.includes(p)).map((p, i) => {
+      const previousPrice = getPeriodPrice(original, original.periods.find(op => op.id === p.id)!, LATEST);
+      const kept = keepClients ? affectedLines.filter(s => getClientPeriod(s, original)?.id === p.id).length : 0;
+      return { id: `${Date.now()}${i}`, periodId: p.id, previousPrice, price: p.price, effectiveFrom, changedAt, grandfathered: kept };
+    });
+    const plan: Plan = {
+      ...base,
+      periods: valid.map(p => ({ ...p, price: original.periods.find(op => op.id === p.id)?.price ?? p.price })),
+      priceHistory: [...original.priceHistory, ...changes]
+    };
+    // Grandfathered lines keep the price they had right before this change
+    const keptPrices = new Map(changes.map(ch => [ch.periodId, ch.previousPrice]));
+    setData(p => ({
+      ...p,
+      plans: p.plans.map(pl => pl.id === plan.id ? plan : pl),
+      clients: !keepClients ? p.clients : p.clients.map(c => {
+        if (!c.subscriptions.some(s => affectedLines.some(a => a.id === s.id))) return c;
+        return withSubscriptions(c, c.subscriptions.map(s => {
+          const periodId = getClientPeriod(s, original)!.id;
+          return affectedLines.some(a => a.id === s.id) && keptPrices.has(periodId) ? { ...s, priceOverrides: { ...s.priceOverrides, [periodId]: keptPrices.get(periodId)! } } : s;
+        }));
+      })
+    }));
+    setEditing(null);
+  };
+
+  const clientsOf = (plan: Plan) => data.clients.filter(c => c.subscriptions.some(s => s.planId === plan.id));
+
+  const handleDelete = (plan: Plan) => {
+    if (clientsOf(plan).length === 0) { if (confirm(t('confirmDeletePlan', { name: plan.name }))) deletePlan(plan.id); return; }
+    setReassignTo(data.plans.find(p => p.id !== plan.id && !p.archived)?.id || '');
+    setDeleting(plan);
+  };
 
-          <div className="flex space-x-2 mt-4">
-             <button onClick={()=>handleSave(false)} className="flex-1 bg-brand-blue text-white p-2 rounded"><Save size={18} className="inline mr-2"/> {t('save')}</button>
-             {!isEditing && <button onClick={()=>handleSave(true)} className="flex-1 bg-green-600 text-white p-2 rounded"><Plus size={18} className="inline mr-2"/> {t('saveAndNew')}</button>}
-             <button onClick={()=>setShowForm(false)} className="flex-1 bg-gray-300 text-gray-800 p-2 rounded">{t('cancel')}</button>
-          </div>
-        </div>
-      </div>
+  // Moved clients start on the target's default period; old overrides referenced the deleted periods
+  const handleReassign = () => {
+    if (!deleting || !reassignTo) return;
+    setData(p => ({
+      ...p,
+      clients: p.clients.map(c => !c.subscriptions.some(s => s.planId === deleting.id) ? c : withSubscriptions(c, c.subscriptions.map(s =>
+        s.planId === deleting.id ? { ...s, planId: reassignTo, periodId: undefined, priceOverrides: undefined } : s
+      ))),
+      plans: p.plans.filter(pl => pl.id !== deleting.id)
+    }));
+    setDeleting(null);
+  };
+
+  const renderPlan = (p: Plan) => {
+    const today = toDateStr(new Date());
+    const scheduled = p.priceHistory.filter(h => h.effectiveFrom > today);
+    const clients = clientsOf(p);
+    const revenue = clients.flatMap(getActiveSubscriptions).filter(s => s.planId === p.id).reduce((sum, s) => {
+      const period = getClientPeriod(s, p);
+      return period ? sum + monthlyEquivalent(getClientPrice(s, p, period), period) : sum;
+    }, 0);
+    return (
+            <div key={p.id} className={`bg-white p-4 rounded shadow ${p.archived ? 'opacity-70' : ''}`}>
+              <div className="flex justify-between items-center">
+               <div>
+                 <p className="font-bold">{p.name} <span className="text-xs font-normal text-gray-500">· {t('connectionsCount', { n: p.connections })}</span></p>
+                 <p className="text-gray-500 text-sm">{p.periods.map(period => `${describePeriod(period, t)} R$ ${getPeriodPrice(p, period).toFixed(2)}`).join(' · ')}</p>
+                 <p className="text-xs text-blue-700 font-semibold">{t('planClients', { count: clients.length })} · {t('monthlyRevenue', { value: revenue.toFixed(2) })}</p>
+                 {scheduled.map(h => <p key={h.id} className="text-xs text-yellow-700">{describePeriod(p.periods.find(pp => pp.id === h.periodId) || p.periods[0], t)}: {t('scheduledPrice', { price: h.price.toFixed(2), date: parseLocalDate(h.effectiveFrom).toLocaleDateString() })}</p>)}
+               </div>
+               <div className="flex space-x-2">
+                 {p.archived && <button onClick={()=>updatePlan({ ...p, archived: false })} className="p-2 bg-green-50 text-green-700 rounded text-xs font-bold">{t('unarchive')}</button>}
+                 <button onClick={()=>setHistoryFor(historyFor === p.id ? null : p.id)} title={t('priceHistory')} className="p-2 bg-gray-50 text-gray-600 rounded"><Clock size={18}/></button><button onClick={()=>startEditing(p)} className="p-2 bg-blue-50 text-blue-600 rounded"><Edit2 size={18}/></button><button onClick={()=>handleDelete(p)} className="p-2 bg-red-50 text-red-600 rounded"><Trash2 size={18}/></button>
+               </div>
+              </div>
+              {historyFor === p.id && (
+                <div className="border-t mt-3 pt-2">
+                  <p className="text-xs font-bold text-gray-500 mb-1">{t('priceHistory')}</p>
+                  {p.priceHistory.length === 0 ? <p className="text-sm text-gray-400 italic">{t('noPriceChanges')}</p> : (
+                    <ul className="space-y-1 text-sm">
+                      {[...p.priceHistory].reverse().map(h => (
+                        <li key={h.id} className="flex justify-between bg-gray-50 p-2 rounded">
+                          <span>{new Date(h.changedAt).toLocaleDateString()} · {describePeriod(p.periods.find(pp => pp.id === h.periodId) || p.periods[0], t)}<span className="block text-xs text-gray-500">{t('effectiveFrom')} {parseLocalDate(h.effectiveFrom).toLocaleDateString()}{h.grandfathered > 0 && ` · ${t('clientsKept', { count: h.grandfathered })}`}</span></span>
+                          <span className="font-bold">R$ {h.previousPrice.toFixed(2)} → R$ {h.price.toFixed(2)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
     );
-  }
+  };
 
   return (
     <div className="p-4 pb-20 md:pb-4">
       <div className="flex justify-between items-center mb-4">
-        <h2 className="text-xl font-bold">{t('manageClients')}</h2>
-        <button onClick={handleAddNew} className="bg-brand-blue text-white p-2 rounded-full shadow-lg"><Plus size={24} /></button>
+         <h2 className="text-xl font-bold">{t('managePlans')}</h2>
+         <button onClick={() => { if(!isLicenseValid && data.plans.length >= 5) return; setEditing({ connections: 1, periods: [newPlanPeriod(0)] }); }} className="bg-brand-blue text-white p-2 rounded-full shadow"><Plus size={24}/></button>
       </div>
-      <SearchFilterBar searchTerm={searchTerm} setSearchTerm={setSearchTerm} filterValue={filterPlan} setFilterValue={setFilterPlan} filterOptions={[{value:'all', label:t('allPlans')}, ...data.plans.map(p=>({value:p.id, label:p.name}))]} placeholder={t('searchClient')} />
-      <div className="space-y-3">
-         {filtered.map(client => (
-            <div key={client.id} className="bg-white p-4 rounded shadow flex items-center justify-between">
-               <div className="flex items-center">
-                  <img src={client.profileImage || SPLASH_IMAGE} className="w-10 h-10 rounded-full mr-3 object-cover" />
-                  <div>
-                     <p className="font-bold">{client.name}</p>
-                     <p className="text-xs text-gray-500">{data.plans.find(p=>p.id===client.planId)?.name}</p>
-                  </div>
-               </div>
-               <div className="flex space-x-2">
-                  <button onClick={() => setMessageModal({isOpen: true, client})} className="p-2 text-green-600 bg-green-50 rounded"><MessageSquare size={18}/></button>
-                  <button onClick={() => handleEdit(client)} className="p-2 text-blue-600 bg-blue-50 rounded"><Edit2 size={18}/></button>
-                  <button onClick={() => deleteClient(client.id)} className="p-2 text-red-600 bg-red-50 rounded"><Trash2 size={18}/></button>
+      {editing && (
+        <div className="bg-white p-4 rounded shadow mb-4">
+           <input className="w-full p-2 border rounded mb-2" placeholder={t('planNamePlaceholder')} value={editing.name||''} onChange={e=>setEditing({...editing, name:e.target.value})}/>
+           <div className="mb-2"><label className="text-xs text-gray-500">{t('connections')}</label><input type="number" min={1} className="w-full p-2 border rounded" value={editing.connections||''} onChange={e=>setEditing({...editing, connections:Number(e.target.value)})}/></div>
+           <p className="text-xs text-gray-500">{t('priceTable')}</p>
+           <div className="space-y-2 mb-2">
+             {periods.map((p, i) => (
+               <div key={p.id} className="flex space-x-2 items-center">
+                 <input type="number" min={1} className="w-16 p-2 border rounded" value={p.length||''} onChange={e=>setPeriod(i, { length: Number(e.target.value) })}/>
+                 <select className="p-2 border rounded bg-white" value={p.unit} onChange={e=>setPeriod(i, { unit: e.target.value as PlanPeriod['unit'] })}>
+                   <option value="months">{t('unitMonths')}</option>
+                   <option value="days">{t('unitDays')}</option>
+                 </select>
+                 <input type="number" className="flex-1 min-w-0 p-2 border rounded" placeholder={t('planPricePlaceholder')} value={p.price||''} onChange={e=>setPeriod(i, { price: Number(e.target.value) })}/>
+                 <button onClick={() => setEditing({ ...editing, periods: periods.filter((_, j) => j !== i) })} disabled={periods.length === 1} className="p-2 text-red-600 disabled:opacity-30"><Trash2 size={16}/></button>
                </div>
-            </div>
-         ))}
+             ))}
+             <button onClick={() => setEditing({ ...editing, periods: [...periods, newPlanPeriod(0, [1, 3, 6, 12].find(n => !periods.some(p => p.unit === 'months' && p.length === n)) || 1)] })} className="text-sm text-blue-600 flex items-center"><Plus size={14} className="mr-1"/> {t('addPeriod')}</button>
+           </div>
+           {changedPeriods.length > 0 && (
+             <div className="bg-yellow-50 border border-yellow-200 rounded p-3 mb-2 space-y-2">
+               <p className="text-sm font-bold text-yellow-800">{t('priceChangeTitle')}</p>
+               <div><label className="text-xs text-gray-500">{t('effectiveFrom')}</label><input type="date" className="w-full p-2 border rounded" value={effectiveFrom} onChange={e=>setEffectiveFrom(e.target.value || toDateStr(new Date()))}/></div>
+               {affectedLines.length > 0 && (
+                 <label className="flex items-center space-x-2 text-sm"><input type="checkbox" checked={keepClients} onChange={e=>setKeepClients(e.target.checked)}/><span>{t('keepCurrentClients', { count: affectedLines.length })}</span></label>
+               )}
+             </div>
+           )}
+           <div className="flex space-x-2"><button onClick={handleSave} className="flex-1 bg-brand-blue text-white p-2 rounded">{t('save')}</button><button onClick={()=>setEditing(null)} className="flex-1 bg-gray-300 p-2 rounded">{t('cancel')}</button></div>
+        </div>
+      )}
+      <div className="space-y-3">
+         {data.plans.filter(p => !p.archived).map(renderPlan)}
+         {data.plans.some(p => p.archived) && <h3 className="font-bold text-sm text-gray-500 pt-2">{t('archivedPlans')}</h3>}
+         {data.plans.filter(p => p.archived).map(renderPlan)}
       </div>
-      
-      {/* Message Modal */}
-      {messageModal.isOpen && (
+      <CouponManager />
+      {deleting && (
         <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
-           <div className="bg-white rounded-lg p-6 w-full max-w-sm">
-              <h3 className="font-bold text-lg mb-4">{t('sendMessage')}</h3>
-              <p className="text-gray-600 mb-4">{t('client')}: {messageModal.client?.name}</p>
-              <button onClick={() => { window.open(`https://wa.me/${messageModal.client?.whatsapp}`, '_blank'); setMessageModal({isOpen:false, client:null}); }} className="w-full bg-green-600 text-white p-3 rounded font-bold mb-2 flex justify-center items-center"><MessageCircle className="mr-2"/> {t('writePersonalized')}</button>
-              <button onClick={() => { 
-                const templates = data.messageTemplates;
-                if(templates.length === 0) alert("Nenhum modelo cadastrado.");
-                else {
-                   const t = templates[0];
-                   let text = t.content.replace('{nome}', messageModal.client!.name).replace('{data}', parseLocalDate(messageModal.client!.dueDate).toLocaleDateString());
-                   window.open(`https://wa.me/${messageModal.client?.whatsapp}?text=${encodeURIComponent(text)}`, '_blank');
-                   setMessageModal({isOpen:false, client:null});
-                }
-              }} className="w-full bg-blue-600 text-white p-3 rounded font-bold mb-2 flex justify-center items-center"><FileText className="mr-2"/> {t('useTemplate')}</button>
-              <button onClick={() => setMessageModal({isOpen:false, client:null})} className="w-full bg-gray-200 text-gray-800 p-3 rounded">{t('cancel')}</button>
-           </div>
+          <div className="bg-white rounded-lg p-6 w-full max-w-sm space-y-3">
+            <h3 className="font-bold text-lg">{deleting.name}</h3>
+            <p className="text-sm text-gray-600">{t('planInUse', { count: clientsOf(deleting).length, name: deleting.name })}</p>
+            <div><label className="text-xs text-gray-500">{t('reassignTo')}</label>
+              <select className="w-full p-2 border rounded bg-white" value={reassignTo} onChange={e=>setReassignTo(e.target.value)}>
+                <option value="">{t('selectPlan')}</option>
+                {data.plans.filter(p => p.id !== deleting.id && !p.archived).map(p => <option key={p.id} value={p.id}>{p.name} - R$ {getPlanPrice(p).toFixed(2)}</option>)}
+              </select>
+            </div>
+            <button onClick={handleReassign} disabled={!reassignTo} className="w-full bg-red-600 text-white p-3 rounded font-bold disabled:opacity-50">{t('reassignAndDelete')}</button>
+            {!deleting.archived && <button onClick={() => { updatePlan({ ...deleting, archived: true }); setDeleting(null); }} className="w-full bg-yellow-100 text-yellow-800 p-3 rounded font-bold">{t('archiveInstead')}</button>}
+            <button onClick={() => setDeleting(null)} className="w-full bg-gray-200 text-gray-800 p-3 rounded">{t('cancel')}</button>
+          </div>
         </div>
       )}
     </div>
   );
 };
 
-const PlanList = () => {
-  const { data, addPlan, updatePlan, deletePlan, isLicenseValid, t } = useContext(AppContext);
-  const [editing, setEditing] = useState<Partial<Plan> | null>(null);
+const SuppliersView = () => {
+  const { data, addSupplier, updateSupplier, deleteSupplier, addSupplierMovement, isLicenseValid, t } = useContext(AppContext);
+  const [editing, setEditing] = useState<(Omit<Partial<Supplier>, 'creditCost'> & { creditCost: number | '' }) | null>(null);
+  const [creditsFor, setCreditsFor] = useState<string | null>(null);
+  const [creditForm, setCreditForm] = useState({ type: 'purchase' as 'purchase' | 'adjustment', credits: '', cost: '' });
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [period, setPeriod] = useState<'1' | '3' | '12'>('1');
+
+  const today = new Date(); today.setHours(0,0,0,0);
+  const from = new Date(today.getFullYear(), today.getMonth() - Number(period) + 1, 1);
+  const money = (v: number) => `R$ ${v.toFixed(2)}`;
 
   const handleSave = () => {
-    if(!editing?.name || !editing?.price) return;
-    if(editing.id) updatePlan(editing as Plan);
-    else addPlan({...editing, id: Date.now().toString()} as Plan);
+    if (!editing?.name) return;
+    const supplier = { ...editing, creditCost: Number(editing.creditCost) || 0 } as Supplier;
+    // Movements are kept from the stored supplier; renewals may have added some while the form was open
+    if (editing.id) updateSupplier({ ...supplier, movements: data.suppliers.find(s => s.id === editing.id)?.movements || [] });
+    else addSupplier({ ...supplier, id: Date.now().toString(), movements: [] });
     setEditing(null);
   };
 
+  const openCredits = (supplier: Supplier) => {
+    setCreditForm({ type: 'purchase', credits: '', cost: '' });
+    setCreditsFor(supplier.id);
+  };
+
+  // Purchases default to the configured credit cost; adjustments may be negative and cost nothing
+  const handleCredits = (supplier: Supplier) => {
+    const credits = Number(creditForm.credits);
+    if (!credits || (creditForm.type === 'purchase' && credits < 0)) return;
+    const cost = creditForm.type === 'purchase' ? roundMoney(creditForm.cost === '' ? credits * supplier.creditCost : Number(creditForm.cost)) : 0;
+    addSupplierMovement(supplier.id, newSupplierMovement(creditForm.type, credits, { cost }));
+    setCreditsFor(null);
+  };
+
+  const handleDelete = (supplier: Supplier) => {
+    const lines = data.clients.flatMap(c => c.subscriptions).filter(s => s.supplierId === supplier.id).length;
+    if (confirm(t('confirmDeleteSupplier', { name: supplier.name, lines }))) deleteSupplier(supplier.id);
+  };
+
+  const rows = data.suppliers.map(s => ({
+    supplier: s,
+    balance: getSupplierBalance(s),
+    lines: data.clients.flatMap(getActiveSubscriptions).filter(sub => sub.supplierId === s.id).length,
+    ...getSupplierProfitability(s, from)
+  }));
+  const totals = rows.reduce((acc, r) => ({ revenue: acc.revenue + r.revenue, cost: acc.cost + r.cost, profit: acc.profit + r.profit }), { revenue: 0, cost: 0, profit: 0 });
+
   return (
-    <div className="p-4 pb-20 md:pb-4">
-      <div className="flex justify-between items-center mb-4">
-         <h2 className="text-xl font-bold">{t('managePlans')}</h2>
-         <button onClick={() => { if(!isLicenseValid && data.plans.length >= 5) return; setEditing({}); }} className="bg-brand-blue text-white p-2 rounded-full shadow"><Plus size={24}/></button>
+    <div className="p-4 pb-20 md:pb-4 space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold">{t('suppliers')}</h2>
+        <div className="flex items-center space-x-2">
+          <select className="p-2 border rounded text-sm bg-white" value={period} onChange={e => setPeriod(e.target.value as any)} title={t('period')}>
+            <option value="1">{t('thisMonth')}</option>
+            <option value="3">{t('lastMonths', { months: 3 })}</option>
+            <option value="12">{t('lastMonths', { months: 12 })}</option>
+          </select>
+          {isLicenseValid && <button onClick={() => setEditing({ name: '', creditCost: 0 })} className="bg-brand-blue text-white p-2 rounded-full shadow-lg"><Plus size={24}/></button>}
+        </div>
       </div>
+
       {editing && (
-        <div className="bg-white p-4 rounded shadow mb-4">
-           <input className="w-full p-2 border rounded mb-2" placeholder={t('planNamePlaceholder')} value={editing.name||''} onChange={e=>setEditing({...editing, name:e.target.value})}/>
-           <input type="number" className="w-full p-2 border rounded mb-2" placeholder={t('planPricePlaceholder')} value={editing.price||''} onChange={e=>setEditing({...editing, price:Number(e.target.value)})}/>
-           <div className="flex space-x-2"><button onClick={handleSave} className="flex-1 bg-brand-blue text-white p-2 rounded">{t('save')}</button><button onClick={()=>setEditing(null)} className="flex-1 bg-gray-300 p-2 rounded">{t('cancel')}</button></div>
+        <div className="bg-white p-4 rounded shadow space-y-2">
+          <input className="w-full p-2 border rounded" placeholder={t('supplierName')} value={editing.name||''} onChange={e=>setEditing({...editing, name:e.target.value})}/>
+          <div><label className="text-xs text-gray-500">{t('creditCost')}</label><input type="number" min={0} step="0.01" className="w-full p-2 border rounded" value={editing.creditCost ?? ''} onChange={e=>setEditing({...editing, creditCost: e.target.value === '' ? '' : Number(e.target.value)})}/></div>
+          <textarea className="w-full p-2 border rounded" placeholder={t('supplierNotes')} value={editing.notes||''} onChange={e=>setEditing({...editing, notes:e.target.value})}/>
+          <div className="flex space-x-2">
+            <button onClick={handleSave} className="flex-1 bg-brand-blue text-white p-2 rounded"><Save size={18} className="inline mr-2"/> {t('save')}</button>
+            <button onClick={() => setEditing(null)} className="flex-1 bg-gray-300 text-gray-800 p-2 rounded">{t('cancel')}</button>
+          </div>
         </div>
       )}
-      <div className="space-y-3">
-         {data.plans.map(p => (
-            <div key={p.id} className="bg-white p-4 rounded shadow flex justify-between items-center">
-               <div><p className="font-bold">{p.name}</p><p className="text-gray-500">R$ {p.price.toFixed(2)}</p></div>
-               <div className="flex space-x-2"><button onClick={()=>setEditing(p)} className="p-2 bg-blue-50 text-blue-600 rounded"><Edit2 size={18}/></button><button onClick={()=>deletePlan(p.id)} className="p-2 bg-red-50 text-red-600 rounded"><Trash2 size={18}/></button></div>
-            </div>
-         ))}
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="bg-white p-3 rounded-lg shadow border-l-4 border-green-500"><h3 className="text-gray-500 text-xs font-medium">{t('revenue')}</h3><p className="text-lg font-bold mt-1">{money(totals.revenue)}</p></div>
+        <div className="bg-white p-3 rounded-lg shadow border-l-4 border-red-500"><h3 className="text-gray-500 text-xs font-medium">{t('creditsCost')}</h3><p className="text-lg font-bold mt-1">{money(totals.cost)}</p></div>
+        <div className={`bg-white p-3 rounded-lg shadow border-l-4 ${totals.profit >= 0 ? 'border-green-500' : 'border-red-500'}`}><h3 className="text-gray-500 text-xs font-medium">{t('netProfit')}</h3><p className="text-lg font-bold mt-1">{money(totals.profit)}</p></div>
       </div>
+
+      {rows.length === 0 && <p className="text-sm text-gray-400 italic text-center">{t('noSuppliers')}</p>}
+      {rows.map(({ supplier, balance, lines, activations, credits, revenue, cost, profit }) => (
+        <div key={supplier.id} className="bg-white p-4 rounded shadow">
+          <div className="flex justify-between items-start">
+            <div>
+              <p className="font-bold">{supplier.name}</p>
+              <p className="text-xs text-gray-500">{money(supplier.creditCost)} / {t('credit').toLowerCase()} · {t('activeLines', { count: lines })}</p>
+              <p className={`text-sm font-bold ${balance <= 0 ? 'text-red-600' : balance < 5 ? 'text-orange-500' : 'text-green-700'}`}>{t('creditBalance', { credits: balance })}</p>
+            </div>
+            <div className="flex space-x-2">
+              <button onClick={() => openCredits(supplier)} className="p-2 bg-green-50 text-green-700 rounded text-xs font-bold">{t('addCredits')}</button>
+              <button onClick={() => setHistoryFor(historyFor === supplier.id ? null : supplier.id)} title={t('creditHistory')} className="p-2 bg-gray-50 text-gray-600 rounded"><Clock size={18}/></button>
+              <button onClick={() => setEditing(supplier)} className="p-2 bg-blue-50 text-blue-600 rounded"><Edit2 size={18}/></button>
+              <button onClick={() => handleDelete(supplier)} className="p-2 bg-red-50 text-red-600 rounded"><Trash2 size={18}/></button>
+            </div>
+          </div>
+          <div className="grid grid-cols-4 gap-2 mt-3 text-center text-xs">
+            <div className="bg-gray-50 rounded p-2"><p className="text-gray-500">{t('activations')}</p><p className="font-bold">{activations} ({credits} {t('credits')})</p></div>
+            <div className="bg-gray-50 rounded p-2"><p className="text-gray-500">{t('revenue')}</p><p className="font-bold text-green-700">{money(revenue)}</p></div>
+            <div className="bg-gray-50 rounded p-2"><p className="text-gray-500">{t('creditsCost')}</p><p className="font-bold text-red-600">{money(cost)}</p></div>
+            <div className="bg-gray-50 rounded p-2"><p className="text-gray-500">{t('margin')}</p><p className={`font-bold ${profit >= 0 ? 'text-green-700' : 'text-red-600'}`}>{money(profit)}{revenue > 0 && ` (${Math.round(profit / revenue * 100)}%)`}</p></div>
+          </div>
+          {creditsFor === supplier.id && (
+            <div className="border-t mt-3 pt-3 space-y-2">
+              <div className="grid grid-cols-3 gap-2">
+                <select className="p-2 border rounded bg-white text-sm" value={creditForm.type} onChange={e=>setCreditForm({...creditForm, type: e.target.value as any})}>
+                  <option value="purchase">{t('creditPurchase')}</option>
+                  <option value="adjustment">{t('creditAdjustment')}</option>
+                </select>
+                <input type="number" className="p-2 border rounded" placeholder={t('credits')} value={creditForm.credits} onChange={e=>setCreditForm({...creditForm, credits:e.target.value})}/>
+                {creditForm.type === 'purchase' && <input type="number" min={0} className="p-2 border rounded" placeholder={money(Number(creditForm.credits || 0) * supplier.creditCost)} value={creditForm.cost} onChange={e=>setCreditForm({...creditForm, cost:e.target.value})}/>}
+              </div>
+              <div className="flex space-x-2">
+                <button onClick={() => handleCredits(supplier)} className="flex-1 bg-green-600 text-white p-2 rounded text-sm font-bold">{t('save')}</button>
+                <button onClick={() => setCreditsFor(null)} className="flex-1 bg-gray-200 text-gray-800 p-2 rounded text-sm">{t('cancel')}</button>
+              </div>
+            </div>
+          )}
+          {historyFor === supplier.id && (
+            <div className="border-t mt-3 pt-2">
+              {supplier.movements.length === 0 ? <p className="text-sm text-gray-400 italic">{t('noCreditMovements')}</p> : (
+                <ul className="space-y-1 text-sm max-h-64 overflow-y-auto">
+                  {[...supplier.movements].reverse().map(m => (
+                    <li key={m.id} className="flex justify-between bg-gray-50 p-2 rounded">
+                      <span>{new Date(m.date).toLocaleDateString()} · {t(SUPPLIER_MOVEMENT_LABELS[m.type])}{m.description && <span className="block text-xs text-gray-500">{m.description}</span>}</span>
+                      <span className="text-right"><span className={`font-bold ${m.credits < 0 ? 'text-red-600' : 'text-green-700'}`}>{m.credits > 0 ? '+' : ''}{m.credits}</span>{m.cost > 0 && <span className="block text-xs text-gray-500">{money(m.cost)}</span>}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
     </div>
   );
 };
 
 const ClientExpirationsList = () => {
-  const { data, updateClient, t } = useContext(AppContext);
+  const { data, addLedgerEntries, recordPayment, addSupplierMovement, t } = useContext(AppContext);
   const [paymentModal, setPaymentModal] = useState<any>(null);
+  const [receipt, setReceipt] = useState<{ clientId: string; entryId: string } | null>(null);
   const [chargeModal, setChargeModal] = useState<any>(null);
+  const [showReconcile, setShowReconcile] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState('all');
 
@@ -837,27 +3014,38 @@ const ClientExpirationsList = () => {
     return matchesSearch && matchesStatus;
   }).sort((a,b) => parseLocalDate(a.dueDate).getTime() - parseLocalDate(b.dueDate).getTime());
 
-  const handleRenew = (client: Client, days: number) => {
-    const currentDue = parseLocalDate(client.dueDate);
-    currentDue.setDate(currentDue.getDate() + days);
-    const plan = data.plans.find(p => p.id === client.planId);
-    const addedValue = (plan?.price || 0) * (days/30);
-    const currentDebt = client.paymentStatus === 'pending' ? (client.amountOwed || 0) : 0;
-    const newTotal = currentDebt + addedValue;
+  // Renews one line; a suspended line becomes active again.
+  // The line's supplier is debited the credits the period uses, even below zero after a warning.
+  const handleRenew = (client: Client, sub: Subscription, period: PlanPeriod) => {
+    const dueDay = sub.dueDay ?? parseLocalDate(sub.dueDate).getDate();
+    const newDue = addPlanPeriod(sub.dueDate, period, dueDay);
+    const grossValue = getClientPrice(sub, data.plans.find(p => p.id === sub.planId), period, sub.dueDate);
+    const periodLabel = client.subscriptions.length > 1 ? `${describePeriod(period, t)} - ${describeSubscription(sub, data.plans)}` : describePeriod(period, t);
+    const supplier = data.suppliers.find(s => s.id === sub.supplierId);
+    const credits = getPeriodCredits(period);
+    if (supplier && getSupplierBalance(supplier) < credits && !confirm(t('supplierLowCredits', { name: supplier.name, balance: getSupplierBalance(supplier), credits }))) return;
+    const { total: addedValue, applied } = applyRenewalDiscounts(grossValue, client.renewalDiscounts);
+    // A credit balance (negative) is used up by the renewal before anything is asked
+    const newTotal = Math.max(0, roundMoney(getLedgerBalance(client.ledger) + addedValue));
 
-    const newHistory = [...(client.paymentHistory || [])];
-
-    if (confirm(t('confirmRenew', { name: client.name, days: days, date: currentDue.toLocaleDateString(), value: newTotal.toFixed(2) }))) {
-       newHistory.push({ date: new Date().toISOString(), amount: newTotal });
-       updateClient({ ...client, dueDate: currentDue.toISOString().split('T')[0], paymentStatus: 'paid', amountOwed: 0, paymentHistory: newHistory });
-    } else {
-       updateClient({ ...client, dueDate: currentDue.toISOString().split('T')[0], paymentStatus: 'pending', amountOwed: newTotal, paymentHistory: newHistory });
+    const entries = [newLedgerEntry('charge', grossValue, { description: t('renewalCharge', { period: periodLabel }), periodStart: sub.dueDate, periodEnd: newDue, subscriptionId: sub.id })];
+    applied.forEach(a => entries.push(newLedgerEntry('discount', a.value, { description: describeDiscount(a.discount, t), periodStart: sub.dueDate, periodEnd: newDue })));
+    const paid = confirm(t('confirmRenew', { name: client.name, period: periodLabel, date: parseLocalDate(newDue).toLocaleDateString(), value: newTotal.toFixed(2) }));
+    if (paid && newTotal > 0) {
+      entries.push(newLedgerEntry('payment', newTotal));
+      setReceipt({ clientId: client.id, entryId: entries[entries.length - 1].id });
     }
+    const subscriptions = client.subscriptions.map(s => s.id === sub.id ? { ...s, dueDate: newDue, dueDay: period.unit === 'months' ? dueDay : undefined, periodId: period.id, status: 'active' as const } : s);
+    addLedgerEntries(client.id, entries, { ...subscriptionFields(subscriptions), renewalDiscounts: undefined });
+    if (supplier) addSupplierMovement(supplier.id, newSupplierMovement('activation', -credits, {
+      cost: roundMoney(credits * supplier.creditCost), revenue: addedValue, clientId: client.id, subscriptionId: sub.id, description: `${client.name} - ${periodLabel}`
+    }));
   };
 
   return (
     <div className="p-4 pb-20 md:pb-4 space-y-4">
       <SearchFilterBar searchTerm={searchTerm} setSearchTerm={setSearchTerm} filterValue={filterStatus} setFilterValue={setFilterStatus} filterOptions={[{value:'all', label:t('all')}, {value:'pending', label:t('noPending')}, {value:'paid', label:t('yesPaid')}]} placeholder={t('search')} />
+      <button onClick={() => setShowReconcile(true)} className="w-full bg-blue-50 text-blue-700 border border-blue-200 p-2 rounded font-semibold text-sm flex items-center justify-center"><Upload size={16} className="mr-2"/> {t('reconcileStatement')}</button>
       {filtered.map(client => {
          const diff = Math.ceil((parseLocalDate(client.dueDate).getTime() - today.getTime()) / 86400000);
          const statusColor = diff < 0 ? 'text-red-600' : diff === 0 ? 'text-orange-500' : 'text-green-600';
@@ -868,6 +3056,7 @@ const ClientExpirationsList = () => {
                 <div>
                    <p className="font-bold">{client.name}</p>
                    <p className={`text-sm font-bold ${statusColor}`}>{statusText} ({parseLocalDate(client.dueDate).toLocaleDateString()})</p>
+                   {!!client.renewalDiscounts?.length && <p className="text-xs text-green-700 font-semibold">{t('discountOnNextRenewal', { value: client.renewalDiscounts.map(formatDiscount).join(' + ') })}</p>}
                    {client.paymentStatus === 'pending' && (
                      <div className="mt-1">
                        {(() => {
@@ -902,21 +3091,33 @@ const ClientExpirationsList = () => {
                    {client.paymentStatus !== 'paid' && <button onClick={() => setChargeModal(client)} className="px-2 py-1 bg-brand-blue text-white rounded text-xs">{t('charge')}</button>}
                 </div>
              </div>
-             <div className="flex space-x-2 mt-3">
-                {[30, 60, 90].map(d => <button key={d} onClick={() => handleRenew(client, d)} className="flex-1 bg-gray-100 hover:bg-gray-200 p-2 rounded text-xs font-bold">+{d} {t('days')}</button>)}
-             </div>
+             {client.subscriptions.filter(s => s.status !== 'cancelled').map(sub => {
+                const plan = data.plans.find(p => p.id === sub.planId);
+                return (
+                  <div key={sub.id} className="mt-3">
+                    {client.subscriptions.length > 1 && (
+                      <p className="text-xs text-gray-600 mb-1"><span className="font-semibold">{describeSubscription(sub, data.plans)}</span> · {parseLocalDate(sub.dueDate).toLocaleDateString()}{sub.status === 'suspended' && ` · ${t('subscriptionSuspended')}`}</p>
+                    )}
+                    <div className="flex space-x-2">
+                      {(plan?.periods || []).map(period => (
+                        <button key={period.id} onClick={() => handleRenew(client, sub, period)} className={`flex-1 p-2 rounded text-xs font-bold ${period.id === sub.periodId ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 hover:bg-gray-200'}`}>
+                          +{describePeriod(period, t)}<span className="block font-normal">R$ {getClientPrice(sub, plan, period, sub.dueDate).toFixed(2)}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                );
+             })}
            </div>
          );
       })}
-      <PaymentModal isOpen={!!paymentModal} onClose={() => setPaymentModal(null)} totalValue={paymentModal?.amountOwed || 0} title={`${t('payAccount')} - ${paymentModal?.name}`} onConfirm={(type: any, amount: any) => {
-         const paidAmount = type === 'total' ? paymentModal!.amountOwed || 0 : amount;
-         const newHistory = [...(paymentModal!.paymentHistory || []), { date: new Date().toISOString(), amount: paidAmount }];
-
-         if (type === 'total') updateClient({...paymentModal, paymentStatus: 'paid', amountOwed: 0, paymentHistory: newHistory});
-         else updateClient({...paymentModal, amountOwed: (paymentModal.amountOwed || 0) - amount, paymentHistory: newHistory});
+      <PaymentModal isOpen={!!paymentModal} withMethod onClose={() => setPaymentModal(null)} totalValue={paymentModal?.amountOwed || 0} title={`${t('payAccount')} - ${paymentModal?.name}`} onConfirm={(type: any, amount: any, details: any) => {
+         if (amount > 0) setReceipt({ clientId: paymentModal.id, entryId: recordPayment(paymentModal, amount, details).id });
          setPaymentModal(null);
       }} />
-      <ChargeModal isOpen={!!chargeModal} onClose={() => setChargeModal(null)} client={chargeModal} plan={data.plans.find(p => p.id === chargeModal?.planId)} settings={data.settings} />
+      <ChargeModal isOpen={!!chargeModal} onClose={() => setChargeModal(null)} client={chargeModal} settings={data.settings} />
+      <ReceiptModal target={receipt} onClose={() => setReceipt(null)} />
+      <BankReconciliationModal isOpen={showReconcile} onClose={() => setShowReconcile(false)} />
     </div>
   );
 };
@@ -927,29 +3128,33 @@ const AccountsPayableList = () => {
   const [showForm, setShowForm] = useState(false);
   const [payModal, setPayModal] = useState<any>(null);
   const [expandedAccId, setExpandedAccId] = useState<string | null>(null);
+  const [paidAmount, setPaidAmount] = useState('');
+  const [editInst, setEditInst] = useState<{ acc: AccountPayable; inst: AccountInstallment; dueDate: string; value: string; shiftFollowing: boolean } | null>(null);
+
+  const handleSaveInstallment = () => {
+    if (!editInst || !editInst.dueDate || !(Number(editInst.value) > 0)) return;
+    const { acc, inst } = editInst;
+    const moved = rescheduleInstallment(acc, inst.id, editInst.dueDate, editInst.shiftFollowing);
+    const installments = moved.installments.map(i => i.id === inst.id ? { ...i, value: roundMoney(Number(editInst.value)) } : i);
+    // Installment accounts keep the total in step with the schedule; recurring ones keep the expected amount of each bill
+    updateAccount({ ...moved, installments, totalValue: acc.recurrence ? acc.totalValue : roundMoney(installments.reduce((sum, i) => sum + i.value, 0)) });
+    setEditInst(null);
+  };
 
   const handleSave = () => {
     if (!editing?.name || !editing?.totalValue) return;
-    const installments = [];
-    // Start generating dates from the selected startDate or today
-    const start = editing.startDate ? parseLocalDate(editing.startDate) : new Date();
-    
-    for(let i=0; i<(editing.installmentsCount||1); i++) {
-       const d = new Date(start); 
-       // Increment month for each installment. Note: setMonth handles year rollover.
-       // The first installment is the Start Date.
-       d.setMonth(d.getMonth() + i);
-       
-       installments.push({ 
-         id: Date.now()+i+'', 
-         number: i+1, 
-         value: (editing.totalValue || 0)/(editing.installmentsCount||1), 
-         dueDate: d.toISOString().split('T')[0], 
-         status: 'pending' 
-       });
+    const { startDate, ...fields } = editing;
+    if (editing.id) {
+      updateAccount(fields as AccountPayable);
+    } else {
+      // The first installment falls on the start date (or today); the following ones count periods from it
+      const scheduleAnchor = { date: startDate || toDateStr(new Date()), number: 1 };
+      const count = editing.recurrence ? 1 : Math.max(1, editing.installmentsCount || 1);
+      // Whole cents per installment; the last one takes the rounding difference so they add up to the total
+      const share = roundMoney(editing.totalValue / count);
+      const installments = Array.from({ length: count }, (_, i) => newInstallment(i + 1, i < count - 1 ? share : roundMoney(editing.totalValue! - share * (count - 1)), getScheduledDueDate(editing, scheduleAnchor, i + 1)));
+      addAccount({ ...fields, id: Date.now().toString(), scheduleAnchor, installmentsCount: count, installments } as AccountPayable);
     }
-    const acc = { ...editing, id: editing.id || Date.now().toString(), installments: editing.installments || installments } as AccountPayable;
-    if (editing.id) updateAccount(acc); else addAccount(acc);
     setShowForm(false); setEditing(null);
   };
 
@@ -961,18 +3166,36 @@ const AccountsPayableList = () => {
            {/* Name */}
            <input className="w-full p-2 border rounded mb-2" placeholder={t('accountName')} value={editing?.name||''} onChange={e=>setEditing({...editing!, name:e.target.value})}/>
            
-           {/* Total Value */}
-           <input type="number" className="w-full p-2 border rounded mb-2" placeholder={t('totalValue')} value={editing?.totalValue||''} onChange={e=>setEditing({...editing!, totalValue:Number(e.target.value)})}/>
+           {/* Recurrence */}
+           <select className="w-full p-2 border rounded mb-2 bg-white" value={editing?.recurrence||''} onChange={e=>setEditing({...editing!, recurrence:(e.target.value || undefined) as AccountRecurrence | undefined})} disabled={!!editing?.id}>
+             <option value="">{t('installmentAccount')}</option>
+             {(Object.keys(RECURRENCE_LABELS) as AccountRecurrence[]).map(r => <option key={r} value={r}>{t(RECURRENCE_LABELS[r])}</option>)}
+           </select>
+
+           {/* Total Value (installment accounts are adjusted per installment once saved) */}
+           {(!editing?.id || editing.recurrence) && <input type="number" className="w-full p-2 border rounded mb-2" placeholder={editing?.recurrence ? t('recurringAmount') : t('totalValue')} value={editing?.totalValue||''} onChange={e=>setEditing({...editing!, totalValue:Number(e.target.value)})}/>}
            
            {/* Installments and Date Row */}
+           {!editing?.id && (
            <div className="flex space-x-2 mb-2">
+             {!editing?.recurrence && (
              <div className="flex-1">
                <input type="number" className="w-full p-2 border rounded" placeholder={t('installments')} value={editing?.installmentsCount||1} onChange={e=>setEditing({...editing!, installmentsCount:Number(e.target.value)})}/>
              </div>
+             )}
              <div className="flex-1">
                <input type="date" className="w-full p-2 border rounded bg-gray-100" value={editing?.startDate||''} onChange={e=>setEditing({...editing!, startDate:e.target.value})}/>
              </div>
            </div>
+           )}
+
+           <label className="flex items-center text-sm space-x-2 mb-2"><input type="checkbox" checked={!!editing?.businessDaysOnly} onChange={e=>setEditing({...editing!, businessDaysOnly: e.target.checked || undefined})}/><span>{t('businessDaysOnly')}</span></label>
+
+           {/* Late charges */}
+           <div className="flex space-x-2 mb-2">
+             <div className="flex-1"><label className="text-xs text-gray-500">{t('lateFeePercent')}</label><input type="number" min={0} step="0.1" className="w-full p-2 border rounded" value={editing?.lateFeePercent ?? ''} onChange={e=>setEditing({...editing!, lateFeePercent: e.target.value === '' ? undefined : Number(e.target.value)})}/></div>
+             <div className="flex-1"><label className="text-xs text-gray-500">{t('dailyInterestPercent')}</label><input type="number" min={0} step="0.01" className="w-full p-2 border rounded" value={editing?.dailyInterestPercent ?? ''} onChange={e=>setEditing({...editing!, dailyInterestPercent: e.target.value === '' ? undefined : Number(e.target.value)})}/></div>
+           </div>
 
            {/* Description */}
            <input className="w-full p-2 border border-yellow-500 rounded mb-4" placeholder={t('description')} value={editing?.description||''} onChange={e=>setEditing({...editing!, description:e.target.value})}/>
@@ -987,29 +3210,46 @@ const AccountsPayableList = () => {
         {data.accountsPayable.map(acc => (
           <div key={acc.id} className="bg-white p-4 rounded shadow cursor-pointer hover:bg-gray-50 transition-colors" onClick={() => setExpandedAccId(expandedAccId === acc.id ? null : acc.id)}>
              <div className="flex justify-between mb-2">
-               <h3 className="font-bold">{acc.name}</h3>
-               <span className="font-bold text-gray-600">{t('total')}: R$ {acc.totalValue.toFixed(2)}</span>
+               <h3 className="font-bold">{acc.name}{acc.recurrence && <span className="ml-2 text-xs font-normal bg-blue-50 text-blue-700 px-2 py-0.5 rounded">{t(RECURRENCE_LABELS[acc.recurrence])}</span>}</h3>
+               <span className="font-bold text-gray-600">{acc.recurrence ? t('recurringAmount') : t('total')}: R$ {acc.totalValue.toFixed(2)}</span>
              </div>
              {/* Only show details if expanded */}
              {expandedAccId === acc.id && (
                <div className="mt-4 pt-4 border-t border-gray-100 space-y-2 animate-fade-in">
                   {acc.description && <p className="text-sm text-gray-500 italic mb-2">{acc.description}</p>}
                   <div className="space-y-1">
-                    {acc.installments.map(inst => (
-                      <div key={inst.id} className="flex justify-between text-sm p-2 bg-gray-50 rounded items-center">
+                    {acc.installments.map(inst => {
+                      const charges = getInstallmentCharges(acc, inst);
+                      return (
+                      <div key={inst.id} className="text-sm p-2 bg-gray-50 rounded">
+                        <div className="flex justify-between items-center">
                           <span className={`${inst.status==='paid'?'text-green-600 font-bold line-through opacity-75':''}`}>{inst.number}x - {parseLocalDate(inst.dueDate).toLocaleDateString()}</span>
                           <div className="flex items-center space-x-2">
-                            <span className={`${inst.status==='paid'?'text-green-600 font-bold':''}`}>R$ {inst.value.toFixed(2)}</span>
+                            <span className={`${inst.status==='paid'?'text-green-600 font-bold':''}`}>R$ {(inst.status === 'paid' ? charges.paid : charges.balance).toFixed(2)}</span>
                             {inst.status === 'paid' ? 
                               <span className="bg-green-100 text-green-800 text-xs px-2 py-0.5 rounded flex items-center"><Check size={12} className="mr-1"/>{t('paid')}</span> 
                               : 
-                              <button onClick={(e)=>{e.stopPropagation(); setPayModal({acc, inst})}} className="text-xs bg-blue-100 text-blue-600 px-2 py-1 rounded hover:bg-blue-200">{t('toPay')}</button>
+                              <>
+                                <button onClick={(e)=>{e.stopPropagation(); setEditInst({ acc, inst, dueDate: inst.dueDate, value: inst.value.toFixed(2), shiftFollowing: false })}} className="text-gray-400 hover:text-blue-600" title={t('editInstallment')}><Edit2 size={14}/></button>
+                                <button onClick={(e)=>{e.stopPropagation(); setPaidAmount(inst.value.toFixed(2)); setPayModal({acc, inst})}} className="text-xs bg-blue-100 text-blue-600 px-2 py-1 rounded hover:bg-blue-200">{t('toPay')}</button>
+                              </>
                             }
                           </div>
+                        </div>
+                        {(charges.lateFee > 0 || charges.interest > 0) && (
+                          <p className="text-xs text-red-600 mt-1">{t('installmentLateCharges', { days: charges.daysLate, principal: inst.value.toFixed(2), fee: charges.lateFee.toFixed(2), interest: charges.interest.toFixed(2) })}</p>
+                        )}
+                        {inst.value !== inst.originalValue && <p className="text-xs text-gray-400 mt-1">{t('installmentOriginalValue', { value: inst.originalValue.toFixed(2) })}</p>}
+                        {inst.payments.map(p => (
+                          <p key={p.id} className="text-xs text-gray-500 mt-1">{parseLocalDate(p.date).toLocaleDateString()} · R$ {p.amount.toFixed(2)}{p.method ? ` · ${t(PAYMENT_METHOD_LABELS[p.method])}` : ''}{p.reference ? ` (${p.reference})` : ''}</p>
+                        ))}
                       </div>
-                    ))}
+                      );
+                    })}
                   </div>
-                  <div className="flex justify-end pt-2">
+                  <div className="flex justify-end pt-2 space-x-4">
+                    <button onClick={(e) => { e.stopPropagation(); setEditing(acc); setShowForm(true); }} className="text-blue-600 text-xs flex items-center hover:underline"><Edit2 size={12} className="mr-1"/> {t('edit')}</button>
+                    {acc.recurrence && <button onClick={(e) => { e.stopPropagation(); if (confirm(t('confirmEndRecurrence', { name: acc.name }))) updateAccount({ ...acc, recurrence: undefined, totalValue: roundMoney(acc.installments.reduce((sum, i) => sum + installmentAmount(i), 0)) }); }} className="text-gray-500 text-xs flex items-center hover:underline"><X size={12} className="mr-1"/> {t('endRecurrence')}</button>}
                     <button onClick={(e) => { e.stopPropagation(); deleteAccount(acc.id); }} className="text-red-500 text-xs flex items-center hover:underline"><Trash2 size={12} className="mr-1"/> Excluir Conta</button>
                   </div>
                </div>
@@ -1019,26 +3259,106 @@ const AccountsPayableList = () => {
           </div>
         ))}
       </div>
-      <PaymentModal isOpen={!!payModal} onClose={()=>setPayModal(null)} title={t('payAccount')} totalValue={payModal?.inst?.value || 0} onConfirm={(type:any, amount:any) => {
-         const updatedInsts = payModal.acc.installments.map((i:any) => i.id === payModal.inst.id ? { ...i, status: type==='total'?'paid':'pending', value: type==='total'?0 : i.value-amount } : i);
-         updateAccount({ ...payModal.acc, installments: updatedInsts });
+      {/* Recurring bills are paid in full, but the amount can differ from the expected one (e.g. electricity) */}
+      {payModal?.acc.recurrence && (() => {
+        const billed = { ...payModal.inst, value: roundMoney(Number(paidAmount) || 0) };
+        const charges = getInstallmentCharges(payModal.acc, billed);
+        return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg p-6 w-full max-w-sm space-y-3">
+            <h3 className="text-lg font-bold">{t('payAccount')} - {payModal.acc.name}</h3>
+            <p className="text-sm text-gray-600">{parseLocalDate(payModal.inst.dueDate).toLocaleDateString()} · {t('expectedAmount')}: R$ {payModal.inst.value.toFixed(2)}</p>
+            <div className="flex">
+              <span className="p-2 bg-gray-100 border border-r-0 rounded-l">R$</span>
+              <input type="number" min={0.01} step="0.01" className="w-full p-2 border rounded-r" value={paidAmount} onChange={e => setPaidAmount(e.target.value)} />
+            </div>
+            {(charges.lateFee > 0 || charges.interest > 0 || charges.paid > 0) && (
+              <p className="text-xs text-gray-600">{t('installmentLateCharges', { days: charges.daysLate, principal: billed.value.toFixed(2), fee: charges.lateFee.toFixed(2), interest: charges.interest.toFixed(2) })}{charges.paid > 0 ? ` − R$ ${charges.paid.toFixed(2)}` : ''}</p>
+            )}
+            <button disabled={!(Number(paidAmount) > 0)} onClick={() => {
+              const acc = { ...payModal.acc, installments: payModal.acc.installments.map((i: AccountInstallment) => i.id === billed.id ? billed : i) };
+              updateAccount(payInstallment(acc, billed.id, charges.balance));
+              setPayModal(null);
+            }} className="w-full bg-green-600 text-white p-3 rounded font-bold disabled:opacity-50">{t('confirmPaidAmount')} (R$ {charges.balance.toFixed(2)})</button>
+            <button onClick={() => setPayModal(null)} className="w-full bg-gray-200 text-gray-800 p-3 rounded">{t('cancel')}</button>
+          </div>
+        </div>
+        );
+      })()}
+      <PaymentModal isOpen={!!payModal && !payModal.acc.recurrence} onClose={()=>setPayModal(null)} title={t('payAccount')} withMethod totalValue={payModal ? getInstallmentCharges(payModal.acc, payModal.inst).balance : 0} onConfirm={(_type: 'total' | 'partial', amount: number, details: Pick<InstallmentPayment, 'method' | 'reference'>) => {
+         updateAccount(payInstallment(payModal.acc, payModal.inst.id, amount, details));
          setPayModal(null);
       }} />
+      {editInst && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg p-6 w-full max-w-sm space-y-3">
+            <h3 className="text-lg font-bold">{t('editInstallment')} {editInst.inst.number} - {editInst.acc.name}</h3>
+            <div><label className="text-xs text-gray-500">{t('installmentDueDate')}</label><input type="date" className="w-full p-2 border rounded" value={editInst.dueDate} onChange={e => setEditInst({ ...editInst, dueDate: e.target.value })} /></div>
+            <div><label className="text-xs text-gray-500">{t('installmentValue')}</label><input type="number" min={0} className="w-full p-2 border rounded" value={editInst.value} onChange={e => setEditInst({ ...editInst, value: e.target.value })} /></div>
+            <label className="flex items-center text-sm space-x-2"><input type="checkbox" checked={editInst.shiftFollowing} onChange={e => setEditInst({ ...editInst, shiftFollowing: e.target.checked })} /><span>{t('rescheduleFollowing')}</span></label>
+            <button disabled={!editInst.dueDate || !(Number(editInst.value) > 0)} onClick={handleSaveInstallment} className="w-full bg-brand-blue text-white p-3 rounded font-bold disabled:opacity-50">{t('save')}</button>
+            <button onClick={() => setEditInst(null)} className="w-full bg-gray-200 text-gray-800 p-3 rounded">{t('cancel')}</button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
 
 const SettingsView = () => {
-  const { data, saveSettings, isLicenseValid, t } = useContext(AppContext);
+  const { data, setData, saveSettings, isLicenseValid, t } = useContext(AppContext);
   const [settings, setSettings] = useState(data.settings);
   const [openGerais, setOpenGerais] = useState(true);
   const [openProfile, setOpenProfile] = useState(false);
   const [openDash, setOpenDash] = useState(false);
   const [openLanguage, setOpenLanguage] = useState(false);
+  const [openBackup, setOpenBackup] = useState(false);
+  const [openReminders, setOpenReminders] = useState(false);
 
-  const handleSave = () => { saveSettings(settings); alert(t('configSaved')); };
+  const handleSave = () => {
+    if (settings.pixKey && !isValidPixKey(settings.pixKey, settings.pixKeyType)) {
+      alert(t('invalidPixKey', { type: t(PIX_KEY_TYPE_LABELS[settings.pixKeyType]) }));
+      return;
+    }
+    const pixKey = settings.pixKey ? normalizePixKey(settings.pixKey, settings.pixKeyType) : '';
+    setSettings({ ...settings, pixKey });
+    saveSettings({ ...settings, pixKey });
+    alert(t('configSaved'));
+  };
   const toggle = (setter: any) => setter((prev: boolean) => !prev);
 
+  const rules = settings.reminderRules || [];
+  const updateRule = (id: string, changes: Partial<ReminderRule>) => setSettings({ ...settings, reminderRules: rules.map(r => r.id === id ? { ...r, ...changes } : r) });
+  const addRule = () => setSettings({ ...settings, reminderRules: [...rules, { id: Date.now().toString(), offsetDays: -1, templateType: 'due_soon', enabled: true }] });
+  const deleteRule = (id: string) => setSettings({ ...settings, reminderRules: rules.filter(r => r.id !== id) });
+
+  const handleExport = () => {
+    const stamp = toDateStr(new Date());
+    downloadFile(JSON.stringify(createBackup(data), null, 2), `backup-${stamp}.json`, 'application/json');
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const r = new FileReader();
+    r.onload = () => {
+      try {
+        const { data: restored, exportedAt } = parseBackup(r.result as string);
+        const date = exportedAt ? new Date(exportedAt).toLocaleString() : file.name;
+        if (!confirm(t('confirmRestore', { date, clients: restored.clients.length, plans: restored.plans.length, accounts: restored.accountsPayable.length }))) return;
+        // The license (and the trial start) belongs to this installation, not to the backup
+        const merged = { ...restored, license: data.license, settings: { ...restored.settings, installDate: data.settings.installDate } };
+        setData(merged);
+        setSettings(merged.settings);
+        alert(t('restoreSuccess'));
+      } catch (err) {
+        alert(t('restoreError', { error: err instanceof Error ? err.message : String(err) }));
+      }
+    };
+    r.readAsText(file);
+  };
+
   return (
     <div className="p-4 pb-20 md:pb-4 space-y-4">
       <h2 className="text-xl font-bold mb-4">{t('settings')}</h2>
@@ -1064,7 +3384,13 @@ const SettingsView = () => {
                     <input className="w-full p-2 border rounded" placeholder={t('document')} value={settings.document} onChange={e=>setSettings({...settings, document:e.target.value})} disabled={!isLicenseValid}/>
                     <h4 className="font-bold text-sm mt-2">{t('pixConfig')}</h4>
                     <input className="w-full p-2 border rounded" placeholder={t('pixName')} value={settings.pixName} onChange={e=>setSettings({...settings, pixName:e.target.value})} disabled={!isLicenseValid}/>
-                    <input className="w-full p-2 border rounded" placeholder={t('pixKey')} value={settings.pixKey} onChange={e=>setSettings({...settings, pixKey:e.target.value})} disabled={!isLicenseValid}/>
+                    <div className="grid grid-cols-3 gap-2">
+                      <select className="p-2 border rounded bg-white" value={settings.pixKeyType} onChange={e=>setSettings({...settings, pixKeyType:e.target.value as Settings['pixKeyType']})} disabled={!isLicenseValid} title={t('pixKeyType')}>
+                        {(Object.keys(PIX_KEY_TYPE_LABELS) as Settings['pixKeyType'][]).map(k => <option key={k} value={k}>{t(PIX_KEY_TYPE_LABELS[k])}</option>)}
+                      </select>
+                      <input className={`col-span-2 p-2 border rounded ${settings.pixKey && !isValidPixKey(settings.pixKey, settings.pixKeyType) ? 'border-red-400' : ''}`} placeholder={t('pixKey')} value={settings.pixKey} onChange={e=>setSettings({...settings, pixKey:e.target.value})} disabled={!isLicenseValid}/>
+                    </div>
+                    <input className="w-full p-2 border rounded" placeholder={t('pixCity')} maxLength={15} value={settings.pixCity || ''} onChange={e=>setSettings({...settings, pixCity:e.target.value})} disabled={!isLicenseValid}/>
                  </div>
                )}
              </div>
@@ -1082,11 +3408,59 @@ const SettingsView = () => {
                     <div className="flex items-center justify-between mt-2 pt-2 border-t"><span className="text-sm">{t('showDebtors')}</span><input type="checkbox" checked={settings.dashboardShowPaymentMonitoring} onChange={e=>setSettings({...settings, dashboardShowPaymentMonitoring:e.target.checked})} disabled={!isLicenseValid}/></div>
                     <div className="flex items-center justify-between mt-2 pt-2 border-t"><span className="text-sm font-bold">{t('showAccountsDash')}</span><input type="checkbox" checked={settings.dashboardShowAccounts} onChange={e=>setSettings({...settings, dashboardShowAccounts:e.target.checked})} disabled={!isLicenseValid}/></div>
                     <div className="flex items-center justify-between"><span className="text-sm">{t('daysToPayAccount')}</span><input type="number" className="w-16 p-1 border rounded" value={settings.dashboardAccountsDays || 1} onChange={e=>setSettings({...settings, dashboardAccountsDays:Number(e.target.value)})} disabled={!isLicenseValid}/></div>
+                    <div className="flex items-center justify-between mt-2 pt-2 border-t"><span className="text-sm font-bold">{t('showBirthdaysDash')}</span><input type="checkbox" checked={settings.dashboardShowBirthdays} onChange={e=>setSettings({...settings, dashboardShowBirthdays:e.target.checked})} disabled={!isLicenseValid}/></div>
+                    <div className="flex items-center justify-between"><span className="text-sm">{t('birthdayDaysAhead')}</span><input type="number" min={0} className="w-16 p-1 border rounded" value={settings.dashboardBirthdayDays || 0} onChange={e=>setSettings({...settings, dashboardBirthdayDays:Number(e.target.value)})} disabled={!isLicenseValid}/></div>
+                    <div className="flex items-center justify-between"><span className="text-sm">{t('birthdayDiscountPercent')}</span><input type="number" min={0} max={100} className="w-16 p-1 border rounded" value={settings.birthdayDiscountPercent || 0} onChange={e=>setSettings({...settings, birthdayDiscountPercent:Number(e.target.value)})} disabled={!isLicenseValid}/></div>
+                    <div className="flex items-center justify-between"><span className="text-sm">{t('referralCredit')}</span><input type="number" min={0} className="w-16 p-1 border rounded" value={settings.referralCredit || 0} onChange={e=>setSettings({...settings, referralCredit:Number(e.target.value)})} disabled={!isLicenseValid}/></div>
                     <div className="flex items-center justify-between mt-2 pt-2 border-t"><span className="text-sm">{t('daysAdvanceReceivables')}</span><input type="number" className="w-16 p-1 border rounded" value={settings.dashboardAlertDays} onChange={e=>setSettings({...settings, dashboardAlertDays:Number(e.target.value)})} disabled={!isLicenseValid}/></div>
                  </div>
                )}
              </div>
 
+             {/* Sub: Lembretes */}
+             <div className="border rounded">
+               <button onClick={() => toggle(setOpenReminders)} className="w-full flex justify-between items-center p-3 bg-gray-100 font-semibold text-sm">
+                  <span>{t('reminderRules')}</span>
+                  {openReminders ? <ChevronUp size={16}/> : <ChevronRight size={16}/>}
+               </button>
+               {openReminders && (
+                 <div className="p-3 space-y-3 bg-white">
+                    <p className="text-xs text-gray-500">{t('reminderRulesHint')}</p>
+                    {rules.map(rule => {
+                      const timing = rule.offsetDays < 0 ? 'before' : rule.offsetDays === 0 ? 'on' : 'after';
+                      const setTiming = (value: string) => {
+                        const days = Math.abs(rule.offsetDays) || 1;
+                        updateRule(rule.id, { offsetDays: value === 'before' ? -days : value === 'on' ? 0 : days });
+                      };
+                      return (
+                        <div key={rule.id} className={`border rounded p-2 space-y-2 ${rule.enabled ? '' : 'opacity-60'}`}>
+                          <div className="flex items-center space-x-2">
+                            <input type="checkbox" checked={rule.enabled} onChange={e => updateRule(rule.id, { enabled: e.target.checked })}/>
+                            {timing !== 'on' && <input type="number" min={1} className="w-16 p-1 border rounded" value={Math.abs(rule.offsetDays)} onChange={e => updateRule(rule.id, { offsetDays: (timing === 'before' ? -1 : 1) * Math.max(1, Number(e.target.value)) })}/>}
+                            <select className="flex-1 p-1 border rounded text-sm bg-white" value={timing} onChange={e => setTiming(e.target.value)}>
+                              <option value="before">{t('daysBeforeDue')}</option>
+                              <option value="on">{t('onDueDay')}</option>
+                              <option value="after">{t('daysAfterDue')}</option>
+                            </select>
+                            <button onClick={() => deleteRule(rule.id)} className="p-1 text-red-600 bg-red-50 rounded"><Trash2 size={16}/></button>
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <select className="p-1 border rounded text-sm bg-white" value={rule.templateType} onChange={e => updateRule(rule.id, { templateType: e.target.value as MessageTemplate['type'], templateId: undefined })}>
+                              {(Object.keys(TEMPLATE_TYPE_LABELS) as MessageTemplate['type'][]).map(type => <option key={type} value={type}>{t(TEMPLATE_TYPE_LABELS[type])}</option>)}
+                            </select>
+                            <select className="p-1 border rounded text-sm bg-white" value={rule.templateId || ''} onChange={e => updateRule(rule.id, { templateId: e.target.value || undefined })}>
+                              <option value="">{t('autoTemplate')}</option>
+                              {data.messageTemplates.filter(m => m.type === rule.templateType).map(m => <option key={m.id} value={m.id}>{m.title}</option>)}
+                            </select>
+                          </div>
+                        </div>
+                      );
+                    })}
+                    <button onClick={addRule} className="w-full bg-blue-50 text-blue-600 border border-blue-200 p-2 rounded text-sm font-semibold flex items-center justify-center"><Plus size={16} className="mr-1"/> {t('addRule')}</button>
+                 </div>
+               )}
+             </div>
+
              {/* Sub: Idioma */}
              <div className="border rounded">
                <button onClick={() => toggle(setOpenLanguage)} className="w-full flex justify-between items-center p-3 bg-gray-100 font-semibold text-sm">
@@ -1103,6 +3477,25 @@ const SettingsView = () => {
                  </div>
                )}
              </div>
+
+             {/* Sub: Backup */}
+             <div className="border rounded">
+               <button onClick={() => toggle(setOpenBackup)} className="w-full flex justify-between items-center p-3 bg-gray-100 font-semibold text-sm">
+                  <span>{t('backup')}</span>
+                  {openBackup ? <ChevronUp size={16}/> : <ChevronRight size={16}/>}
+               </button>
+               {openBackup && (
+                 <div className="p-3 space-y-3 bg-white">
+                    {!isLicenseValid && <p className="text-xs text-orange-600 font-bold">{t('requireLicense')}</p>}
+                    <p className="text-xs text-gray-500">{t('backupHint')}</p>
+                    <button onClick={handleExport} disabled={!isLicenseValid} className="w-full bg-brand-blue text-white p-2 rounded font-semibold flex items-center justify-center disabled:opacity-50"><Download size={18} className="mr-2"/> {t('exportBackup')}</button>
+                    <label className={`w-full bg-blue-50 text-blue-600 border border-blue-200 p-2 rounded font-semibold flex items-center justify-center ${isLicenseValid ? 'cursor-pointer' : 'opacity-50'}`}>
+                       <Upload size={18} className="mr-2"/> {t('importBackup')}
+                       <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} disabled={!isLicenseValid}/>
+                    </label>
+                 </div>
+               )}
+             </div>
           </div>
         )}
       </div>
@@ -1121,25 +3514,110 @@ const SettingsView = () => {
 };
 
 const CommunicationView = () => {
-  const { data, addMessageTemplate, t } = useContext(AppContext);
+  const { data, addMessageTemplate, updateMessageTemplate, deleteMessageTemplate, moveMessageTemplate, restoreDefaultTemplates, t } = useContext(AppContext);
   const [newTemplate, setNewTemplate] = useState<Partial<MessageTemplate>>({ type: 'general' });
+  const [previewClientId, setPreviewClientId] = useState(data.clients[0]?.id || '');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const contentRef = React.useRef<HTMLTextAreaElement>(null);
+
+  const todayStr = toDateStr(new Date());
+  const previewClient: Client = data.clients.find(c => c.id === previewClientId) || {
+    id: 'sample', name: t('sampleClient'), whatsapp: '', birthDate: '', paymentStatus: 'pending', ledger: [],
+    ...subscriptionFields([newSubscription(data.plans[0]?.id || '', todayStr)])
+  };
+
+  const insertPlaceholder = (key: string) => {
+    const el = contentRef.current;
+    const content = newTemplate.content || '';
+    const start = el ? el.selectionStart : content.length;
+    const end = el ? el.selectionEnd : content.length;
+    setNewTemplate({ ...newTemplate, content: `${content.slice(0, start)}{${key}}${content.slice(end)}` });
+    el?.focus();
+  };
+
+  const resetForm = () => setNewTemplate({ type: 'general', title: '', content: '' });
+
+  const handleSave = () => {
+    if (!newTemplate.title || !newTemplate.content) return;
+    if (newTemplate.id) updateMessageTemplate(newTemplate as MessageTemplate);
+    else addMessageTemplate({ ...newTemplate, id: Date.now().toString() } as MessageTemplate);
+    resetForm();
+  };
+
+  const handleDuplicate = (tpl: MessageTemplate, index: number) => {
+    addMessageTemplate({ ...tpl, id: Date.now().toString(), title: `${tpl.title} ${t('copySuffix')}` });
+    // addMessageTemplate appends; bring the copy right below the original
+    moveMessageTemplate(data.messageTemplates.length, index + 1);
+  };
+
+  const handleDelete = (tpl: MessageTemplate) => {
+    if (!confirm(t('confirmDeleteTemplate', { title: tpl.title }))) return;
+    deleteMessageTemplate(tpl.id);
+    if (newTemplate.id === tpl.id) resetForm();
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) moveMessageTemplate(dragIndex, index);
+    setDragIndex(null);
+  };
 
   return (
     <div className="p-4 pb-20 md:pb-4 grid grid-cols-1 md:grid-cols-3 gap-4">
        <div className="md:col-span-1 bg-white p-4 rounded shadow min-w-0">
-          <h3 className="font-bold mb-2">{t('newMessageModel')}</h3>
+          <h3 className="font-bold mb-2">{newTemplate.id ? t('editMessageModel') : t('newMessageModel')}</h3>
           <input className="w-full p-2 border rounded mb-2" placeholder={t('title')} value={newTemplate.title||''} onChange={e=>setNewTemplate({...newTemplate, title:e.target.value})}/>
           <select className="w-full p-2 border rounded mb-2" value={newTemplate.type} onChange={e=>setNewTemplate({...newTemplate, type:e.target.value as any})}>
-             <option value="general">{t('generalType')}</option><option value="renewal">{t('renewalType')}</option><option value="overdue">{t('overdueType')}</option><option value="black_friday">{t('blackFridayType')}</option><option value="offer">{t('offerType')}</option><option value="birthday">{t('birthdayType')}</option>
+             {(Object.keys(TEMPLATE_TYPE_LABELS) as MessageTemplate['type'][]).map(type => <option key={type} value={type}>{t(TEMPLATE_TYPE_LABELS[type])}</option>)}
           </select>
-          <textarea className="w-full p-2 border rounded mb-2 h-32" placeholder={t('content')} value={newTemplate.content||''} onChange={e=>setNewTemplate({...newTemplate, content:e.target.value})}/>
-          <button onClick={()=>{if(newTemplate.title && newTemplate.content) { addMessageTemplate({...newTemplate, id:Date.now().toString()} as MessageTemplate); setNewTemplate({type:'general', title:'', content:''}); }}} className="w-full bg-brand-blue text-white p-2 rounded">{t('add')}</button>
+          <textarea ref={contentRef} className="w-full p-2 border rounded mb-2 h-32" placeholder={t('content')} value={newTemplate.content||''} onChange={e=>setNewTemplate({...newTemplate, content:e.target.value})}/>
+          <p className="text-xs text-gray-500 mb-1">{t('placeholdersHint')}</p>
+          <div className="flex flex-wrap gap-1 mb-2">
+             {TEMPLATE_PLACEHOLDERS.map(key => <button key={key} onClick={() => insertPlaceholder(key)} className="text-xs bg-blue-50 text-blue-700 border border-blue-100 px-2 py-0.5 rounded font-mono">{`{${key}}`}</button>)}
+          </div>
+          <p className="text-xs text-gray-400 mb-2">{t('conditionalHint')}</p>
+          <div className="border rounded mb-2">
+             <div className="flex items-center justify-between bg-gray-50 p-2 border-b">
+                <span className="text-xs font-bold text-gray-600">{t('templatePreview')}</span>
+                <select className="text-xs p-1 border rounded bg-white max-w-[60%]" value={previewClientId} onChange={e=>setPreviewClientId(e.target.value)} title={t('previewClient')}>
+                   {data.clients.length === 0 && <option value="">{t('sampleClient')}</option>}
+                   {data.clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+             </div>
+             <p className="p-2 text-sm text-gray-700 whitespace-pre-wrap break-words bg-green-50 min-h-[3rem]">{renderTemplate(newTemplate.content || '', buildTemplateVars(previewClient, data))}</p>
+          </div>
+          <div className="flex space-x-2">
+             <button onClick={handleSave} className="flex-1 bg-brand-blue text-white p-2 rounded">{newTemplate.id ? t('save') : t('add')}</button>
+             {newTemplate.id && <button onClick={resetForm} className="flex-1 bg-gray-300 text-gray-800 p-2 rounded">{t('cancel')}</button>}
+          </div>
        </div>
        <div className="md:col-span-2 space-y-2">
-          {data.messageTemplates.map(t => (
-             <div key={t.id} className="bg-white p-3 rounded shadow">
-                <p className="font-bold text-sm">{t.title} <span className="text-gray-400 text-xs">({t.type})</span></p>
-                <p className="text-gray-600 text-xs mt-1 truncate">{t.content}</p>
+          <div className="flex justify-between items-center">
+             <p className="text-xs text-gray-400">{t('dragToReorder')}</p>
+             <button onClick={() => { if (confirm(t('confirmRestoreTemplates'))) restoreDefaultTemplates(); }} className="text-xs text-blue-600 font-semibold hover:underline">{t('restoreDefaultTemplates')}</button>
+          </div>
+          {data.messageTemplates.map((tpl, index) => (
+             <div
+                key={tpl.id}
+                draggable
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={e => e.preventDefault()}
+                onDrop={() => handleDrop(index)}
+                onDragEnd={() => setDragIndex(null)}
+                className={`bg-white p-3 rounded shadow ${dragIndex === index ? 'opacity-50' : ''} ${newTemplate.id === tpl.id ? 'ring-2 ring-brand-blue' : ''}`}
+             >
+                <div className="flex justify-between items-start">
+                   <p className="font-bold text-sm min-w-0">{tpl.title} <span className="text-gray-400 text-xs">({t(TEMPLATE_TYPE_LABELS[tpl.type] || 'generalType')})</span></p>
+                   <div className="flex space-x-1 flex-shrink-0 ml-2">
+                      <button onClick={() => moveMessageTemplate(index, index - 1)} disabled={index === 0} className="p-1 text-gray-500 disabled:opacity-30"><ChevronUp size={16}/></button>
+                      <button onClick={() => moveMessageTemplate(index, index + 1)} disabled={index === data.messageTemplates.length - 1} className="p-1 text-gray-500 disabled:opacity-30"><ChevronDown size={16}/></button>
+                      <button onClick={() => setNewTemplate(tpl)} className="p-1 text-blue-600 bg-blue-50 rounded"><Edit2 size={16}/></button>
+                      <button onClick={() => handleDuplicate(tpl, index)} title={t('duplicate')} className="p-1 text-indigo-600 bg-indigo-50 rounded"><Copy size={16}/></button>
+                      <button onClick={() => handleDelete(tpl)} className="p-1 text-red-600 bg-red-50 rounded"><Trash2 size={16}/></button>
+                   </div>
+                </div>
+                <p className={`text-gray-600 text-xs mt-1 whitespace-pre-wrap break-words ${expandedId === tpl.id ? '' : 'line-clamp-2'}`}>{tpl.content}</p>
+                <button onClick={() => setExpandedId(expandedId === tpl.id ? null : tpl.id)} className="text-xs text-blue-600 mt-1">{expandedId === tpl.id ? t('showLess') : t('showMore')}</button>
              </div>
           ))}
        </div>
@@ -1147,6 +3625,293 @@ const CommunicationView = () => {
   );
 };
 
+const CampaignRunner = ({ campaign, onBack }: { campaign: Campaign; onBack: () => void }) => {
+  const { data, updateCampaign, sendWhatsApp, t } = useContext(AppContext);
+  const total = campaign.recipients.length;
+  const sent = campaign.recipients.filter(r => r.status === 'sent').length;
+  const skipped = campaign.recipients.filter(r => r.status === 'skipped').length;
+  const current = campaign.recipients.find(r => r.status === 'pending');
+  const currentClient = current && data.clients.find(c => c.id === current.clientId);
+  const message = currentClient ? renderTemplate(campaign.content, buildTemplateVars(currentClient, data)) : '';
+
+  const setStatus = (clientId: string, status: 'pending' | 'sent' | 'skipped') => {
+    const recipients = campaign.recipients.map(r => r.clientId === clientId ? { ...r, status, updatedAt: new Date().toISOString() } : r);
+    const finished = !recipients.some(r => r.status === 'pending');
+    updateCampaign({ ...campaign, recipients, finishedAt: finished ? (campaign.finishedAt || new Date().toISOString()) : undefined });
+  };
+
+  const handleSend = (openChat: boolean) => {
+    if (!currentClient) return;
+    sendWhatsApp(currentClient, message, { context: 'campaign', templateId: campaign.templateId, campaignId: campaign.id }, openChat);
+    setStatus(currentClient.id, 'sent');
+  };
+
+  const statusStyle = { pending: 'bg-gray-100 text-gray-600', sent: 'bg-green-100 text-green-700', skipped: 'bg-yellow-100 text-yellow-700' };
+  const statusLabel = { pending: t('statusPending'), sent: t('statusSent'), skipped: t('statusSkipped') };
+
+  return (
+    <div className="p-4 pb-20 md:pb-4 space-y-4">
+      <button onClick={onBack} className="text-sm text-blue-600 font-semibold flex items-center"><ChevronLeft size={16} className="mr-1"/> {t('back')}</button>
+      <div className="bg-white p-4 rounded shadow">
+        <h2 className="text-xl font-bold">{campaign.name}</h2>
+        <p className="text-sm text-gray-500 mb-2">{t('campaignProgress', { done: sent + skipped, total, sent, skipped })}</p>
+        <div className="w-full h-2 bg-gray-200 rounded overflow-hidden flex">
+          <div className="bg-green-500 h-full" style={{ width: `${total ? (sent / total) * 100 : 0}%` }}/>
+          <div className="bg-yellow-400 h-full" style={{ width: `${total ? (skipped / total) * 100 : 0}%` }}/>
+        </div>
+      </div>
+
+      {current ? (
+        <div className="bg-white p-4 rounded shadow border-l-4 border-green-500">
+          <p className="text-xs font-bold text-gray-500 uppercase mb-1">{t('nextInQueue')}</p>
+          {currentClient ? (
+            <>
+              <p className="font-bold">{currentClient.name} <span className="text-xs font-normal text-gray-500">{currentClient.whatsapp}</span></p>
+              <p className="text-sm text-gray-700 whitespace-pre-wrap break-words bg-green-50 p-2 rounded my-3">{message}</p>
+              <button onClick={() => handleSend(true)} className="w-full bg-green-600 text-white p-3 rounded font-bold mb-2 flex items-center justify-center"><MessageCircle size={18} className="mr-2"/> {t('sendAndNext')}</button>
+              <div className="flex space-x-2">
+                <button onClick={() => handleSend(false)} className="flex-1 bg-blue-50 text-blue-700 p-2 rounded text-sm font-bold flex items-center justify-center"><Check size={16} className="mr-1"/> {t('markSent')}</button>
+                <button onClick={() => setStatus(current.clientId, 'skipped')} className="flex-1 bg-gray-100 text-gray-700 p-2 rounded text-sm font-bold flex items-center justify-center"><SkipForward size={16} className="mr-1"/> {t('skip')}</button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500 italic mb-3">{t('clientRemoved')}</p>
+              <button onClick={() => setStatus(current.clientId, 'skipped')} className="w-full bg-gray-100 text-gray-700 p-2 rounded text-sm font-bold flex items-center justify-center"><SkipForward size={16} className="mr-1"/> {t('skip')}</button>
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="bg-green-50 border border-green-200 text-green-700 p-4 rounded font-bold text-center">{t('campaignFinished')}</div>
+      )}
+
+      <div className="bg-white rounded shadow divide-y divide-gray-100">
+        {campaign.recipients.map(r => {
+          const client = data.clients.find(c => c.id === r.clientId);
+          return (
+            <button key={r.clientId} disabled={r.status === 'pending'} onClick={() => setStatus(r.clientId, 'pending')} title={r.status !== 'pending' ? t('requeue') : undefined} className="w-full flex justify-between items-center p-3 text-sm text-left">
+              <span className={client ? '' : 'text-gray-400 italic'}>{client?.name || t('clientRemoved')}</span>
+              <span className={`text-xs px-2 py-0.5 rounded font-bold ${statusStyle[r.status]}`}>{statusLabel[r.status]}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const CampaignsView = () => {
+  const { data, addCampaign, deleteCampaign, t } = useContext(AppContext);
+  const [draft, setDraft] = useState<{ name: string; templateId: string; segment: CampaignSegment } | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const active = data.campaigns.find(c => c.id === activeId);
+  if (active) return <CampaignRunner campaign={active} onBack={() => setActiveId(null)} />;
+
+  const audience = draft ? filterClientsBySegment(data.clients, draft.segment) : [];
+  const monthName = (m: number) => new Date(2000, m - 1, 1).toLocaleString(data.settings.language || 'pt', { month: 'long' });
+
+  const handleCreate = () => {
+    const template = data.messageTemplates.find(m => m.id === draft?.templateId);
+    if (!draft?.name || !template || audience.length === 0) return;
+    const campaign: Campaign = {
+      id: Date.now().toString(),
+      name: draft.name,
+      templateId: template.id,
+      content: template.content,
+      segment: draft.segment,
+      recipients: audience.map(c => ({ clientId: c.id, status: 'pending' })),
+      createdAt: new Date().toISOString()
+    };
+    addCampaign(campaign);
+    setDraft(null);
+    setActiveId(campaign.id);
+  };
+
+  return (
+    <div className="p-4 pb-20 md:pb-4 space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold">{t('campaigns')}</h2>
+        <button onClick={() => setDraft({ name: '', templateId: data.messageTemplates[0]?.id || '', segment: { planId: 'all', paymentStatus: 'all' } })} className="bg-brand-blue text-white p-2 rounded-full shadow"><Plus size={24}/></button>
+      </div>
+
+      {draft && (
+        <div className="bg-white p-4 rounded shadow space-y-2">
+          <h3 className="font-bold">{t('newCampaign')}</h3>
+          <input className="w-full p-2 border rounded" placeholder={t('campaignName')} value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })}/>
+          <select className="w-full p-2 border rounded bg-white" value={draft.templateId} onChange={e => setDraft({ ...draft, templateId: e.target.value })}>
+            <option value="">{t('selectTemplate')}</option>
+            {data.messageTemplates.map(m => <option key={m.id} value={m.id}>{m.title}</option>)}
+          </select>
+          <h4 className="font-bold text-sm pt-2">{t('audience')}</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <select className="p-2 border rounded bg-white" value={draft.segment.planId} onChange={e => setDraft({ ...draft, segment: { ...draft.segment, planId: e.target.value } })}>
+              <option value="all">{t('allPlans')}</option>
+              {data.plans.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <select className="p-2 border rounded bg-white" value={draft.segment.paymentStatus} onChange={e => setDraft({ ...draft, segment: { ...draft.segment, paymentStatus: e.target.value as any } })}>
+              <option value="all">{t('all')}</option>
+              <option value="pending">{t('noPending')}</option>
+              <option value="paid">{t('yesPaid')}</option>
+            </select>
+            <div><label className="text-xs text-gray-500">{t('minOverdueDays')}</label><input type="number" min={0} className="w-full p-2 border rounded" value={draft.segment.minOverdueDays || ''} onChange={e => setDraft({ ...draft, segment: { ...draft.segment, minOverdueDays: Number(e.target.value) || undefined } })}/></div>
+            <div><label className="text-xs text-gray-500">{t('birthdayMonth')}</label>
+              <select className="w-full p-2 border rounded bg-white" value={draft.segment.birthdayMonth || ''} onChange={e => setDraft({ ...draft, segment: { ...draft.segment, birthdayMonth: Number(e.target.value) || undefined } })}>
+                <option value="">{t('anyMonth')}</option>
+                {Array.from({ length: 12 }, (_, i) => <option key={i + 1} value={i + 1}>{monthName(i + 1)}</option>)}
+              </select>
+            </div>
+          </div>
+          <p className="text-sm font-bold text-brand-blue">{t('recipientsCount', { count: audience.length })}</p>
+          <div className="flex space-x-2">
+            <button onClick={handleCreate} disabled={!draft.name || !draft.templateId || audience.length === 0} className="flex-1 bg-brand-blue text-white p-2 rounded disabled:opacity-50">{t('createCampaign')}</button>
+            <button onClick={() => setDraft(null)} className="flex-1 bg-gray-300 text-gray-800 p-2 rounded">{t('cancel')}</button>
+          </div>
+        </div>
+      )}
+
+      {data.campaigns.length === 0 && !draft && <p className="text-sm text-gray-400 italic text-center py-8">{t('noCampaigns')}</p>}
+      {data.campaigns.map(c => {
+        const done = c.recipients.filter(r => r.status !== 'pending').length;
+        return (
+          <div key={c.id} className="bg-white p-4 rounded shadow cursor-pointer hover:bg-gray-50" onClick={() => setActiveId(c.id)}>
+            <div className="flex justify-between items-start">
+              <div>
+                <p className="font-bold">{c.name}</p>
+                <p className="text-xs text-gray-500">{new Date(c.createdAt).toLocaleDateString()} · {data.messageTemplates.find(m => m.id === c.templateId)?.title || ''}</p>
+              </div>
+              <button onClick={e => { e.stopPropagation(); if (confirm(t('confirmDeleteCampaign', { name: c.name }))) deleteCampaign(c.id); }} className="p-2 text-red-600 bg-red-50 rounded"><Trash2 size={16}/></button>
+            </div>
+            <div className="w-full h-2 bg-gray-200 rounded overflow-hidden mt-2"><div className={`h-full ${c.finishedAt ? 'bg-green-500' : 'bg-brand-blue'}`} style={{ width: `${c.recipients.length ? (done / c.recipients.length) * 100 : 0}%` }}/></div>
+            <p className="text-xs text-gray-500 mt-1">{c.finishedAt ? t('campaignFinished') : `${done}/${c.recipients.length}`}</p>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const CHART_COLORS = ['#003366', '#CC0000', '#16a34a', '#f59e0b', '#7c3aed', '#0891b2', '#db2777', '#65a30d'];
+
+const AnalyticsView = () => {
+  const { data, t } = useContext(AppContext);
+  const [period, setPeriod] = useState<'3' | '6' | '12' | 'year'>('6');
+
+  const today = new Date(); today.setHours(0,0,0,0);
+  const from = period === 'year' ? new Date(today.getFullYear(), 0, 1) : new Date(today.getFullYear(), today.getMonth() - Number(period) + 1, 1);
+  const months = buildMonthlyStats(data, from, today);
+
+  const totals = months.reduce((acc, m) => ({
+    revenue: acc.revenue + m.revenue, expenses: acc.expenses + m.expenses, payments: acc.payments + m.payments,
+    newClients: acc.newClients + m.newClients, churned: acc.churned + m.churned
+  }), { revenue: 0, expenses: 0, payments: 0, newClients: 0, churned: 0 });
+  const averageTicket = totals.payments ? totals.revenue / totals.payments : 0;
+
+  const activeLines = data.clients.flatMap(c => getActiveSubscriptions(c).filter(s => parseLocalDate(s.dueDate) >= today));
+  const activeClients = data.clients.filter(c => getActiveSubscriptions(c).some(s => parseLocalDate(s.dueDate) >= today));
+  // Same rule as the monthly churn: clients that had already churned before the period don't count
+  const activeAtStart = data.clients.filter(c => {
+    const churnedOn = getChurnDate(c, today);
+    return (!c.createdAt || parseLocalDate(c.createdAt) < from) && getActiveSubscriptions(c).length > 0 && !(churnedOn && churnedOn < from);
+  }).length;
+  const churnRate = activeAtStart + totals.newClients ? (totals.churned / (activeAtStart + totals.newClients)) * 100 : 0;
+
+  const mrrByPlan = data.plans
+    .map(p => ({ name: p.name, value: activeLines.filter(s => s.planId === p.id).reduce((sum, s) => {
+      const period = getClientPeriod(s, p);
+      return period ? sum + monthlyEquivalent(getClientPrice(s, p, period), period) : sum;
+    }, 0) }))
+    .filter(p => p.value > 0);
+  const mrr = mrrByPlan.reduce((sum, p) => sum + p.value, 0);
+
+  const money = (v: number) => `R$ ${v.toFixed(2)}`;
+  const cards = [
+    { label: t('revenue'), value: money(totals.revenue), color: 'border-green-500' },
+    { label: t('expenses'), value: money(totals.expenses), color: 'border-red-500' },
+    { label: t('netProfit'), value: money(totals.revenue - totals.expenses), color: totals.revenue >= totals.expenses ? 'border-green-500' : 'border-red-500' },
+    { label: t('mrr'), value: money(mrr), color: 'border-blue-500' },
+    { label: t('averageTicket'), value: money(averageTicket), color: 'border-indigo-500' },
+    { label: t('activeClients'), value: String(activeClients.length), color: 'border-blue-500' },
+    { label: t('newClients'), value: String(totals.newClients), color: 'border-green-500' },
+    { label: t('churnRate'), value: `${churnRate.toFixed(1)}% (${totals.churned})`, color: 'border-orange-500' }
+  ];
+
+  return (
+    <div className="p-4 pb-20 md:pb-4 space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold">{t('analytics')}</h2>
+        <select className="p-2 border rounded text-sm bg-white" value={period} onChange={e => setPeriod(e.target.value as any)} title={t('period')}>
+          <option value="3">{t('lastMonths', { months: 3 })}</option>
+          <option value="6">{t('lastMonths', { months: 6 })}</option>
+          <option value="12">{t('lastMonths', { months: 12 })}</option>
+          <option value="year">{t('thisYear')}</option>
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        {cards.map(card => (
+          <div key={card.label} className={`bg-white p-3 rounded-lg shadow border-l-4 ${card.color}`}>
+            <h3 className="text-gray-500 text-xs font-medium">{card.label}</h3>
+            <p className="text-lg font-bold mt-1">{card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white p-4 rounded-lg shadow">
+        <h3 className="font-bold mb-4">{t('revenueVsExpenses')}</h3>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={months}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" fontSize={12} />
+              <YAxis fontSize={12} />
+              <Tooltip formatter={(v: any) => money(Number(v))} />
+              <Legend />
+              <Bar dataKey="revenue" name={t('revenue')} fill="#16a34a" />
+              <Bar dataKey="expenses" name={t('expenses')} fill="#CC0000" />
+              <Line dataKey="profit" name={t('netProfit')} stroke="#003366" strokeWidth={2} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-white p-4 rounded-lg shadow">
+          <h3 className="font-bold mb-4">{t('mrrByPlan')}</h3>
+          {mrrByPlan.length === 0 ? <p className="text-sm text-gray-400 italic text-center py-8">{t('noData')}</p> : (
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <PieChart>
+                  <Pie data={mrrByPlan} dataKey="value" nameKey="name" outerRadius={80} label={(e: any) => e.name}>
+                    {mrrByPlan.map((_, i) => <Cell key={i} fill={CHART_COLORS[i % CHART_COLORS.length]} />)}
+                  </Pie>
+                  <Tooltip formatter={(v: any) => money(Number(v))} />
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow">
+          <h3 className="font-bold mb-4">{t('clientsGrowth')}</h3>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={months}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" fontSize={12} />
+                <YAxis allowDecimals={false} fontSize={12} />
+                <Tooltip />
+                <Legend />
+                <Bar dataKey="newClients" name={t('newClients')} fill="#003366" />
+                <Bar dataKey="churned" name={t('churn')} fill="#f59e0b" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const LicensePlansPage = () => {
   const { t } = useContext(AppContext);
   return (
@@ -1223,6 +3988,8 @@ const Layout = ({ children }: { children: React.ReactNode }) => {
     { id: 'dashboard', label: t('dashboard'), icon: BarChart2 },
     { id: 'clients', label: t('manageClients'), icon: Users },
     { id: 'plans', label: t('managePlans'), icon: CreditCard },
+    { id: 'suppliers', label: t('suppliers'), icon: Server },
+    { id: 'analytics', label: t('analytics'), icon: TrendingUp },
   ];
 
   return (
@@ -1265,6 +4032,10 @@ const Layout = ({ children }: { children: React.ReactNode }) => {
              <MessageCircle size={20} className="mr-3" /> <span className="font-medium">{t('messages')}</span>
           </button>
 
+          <button onClick={() => { navigate('campaigns'); setIsSidebarOpen(false); }} className={`w-full flex items-center px-6 py-3 hover:bg-blue-800 transition-colors ${currentView === 'campaigns' ? 'bg-blue-900 border-r-4 border-white' : ''}`}>
+             <Megaphone size={20} className="mr-3" /> <span className="font-medium">{t('campaigns')}</span>
+          </button>
+
           <div className="pt-4 mt-4 border-t border-blue-900">
              <button onClick={() => { navigate('settings'); setIsSidebarOpen(false); }} className={`w-full flex items-center px-6 py-3 hover:bg-blue-800 transition-colors ${currentView === 'settings' ? 'bg-blue-900 border-r-4 border-white' : ''}`}>
                <SettingsIcon size={20} className="mr-3" /> <span className="font-medium">{t('settings')}</span>
@@ -1298,9 +4069,12 @@ const MainContent = () => {
     case 'dashboard': return <Dashboard />;
     case 'clients': return <ClientList />;
     case 'plans': return <PlanList />;
+    case 'suppliers': return <SuppliersView />;
     case 'expirations': return <FinancialControl />; // Wrapper for tabs
     case 'accounts': return <FinancialControl />; // Wrapper for tabs
     case 'communication': return <CommunicationView />;
+    case 'campaigns': return <CampaignsView />;
+    case 'analytics': return <AnalyticsView />;
     case 'settings': return <SettingsView />;
     case 'licensePlans': return <LicensePlansPage />;
     case 'activation': return <LicenseActivationPage />;
@@ -1,11 +1,15 @@
 
-import { MessageTemplate } from './types';
+import { MessageTemplate, ReminderRule } from './types';
 
 export const SPLASH_IMAGE = "https://picsum.photos/id/1/800/1200"; // Placeholder for Gemini_Generated_Image_f7gtouf7gtouf7gt.jpg
 export const SUPPORT_IMAGE = "/suporte.PNG"; // Gemini generated support image
 export const SUPPORT_PHONE = "5541988192359";
 export const SUPPORT_EMAIL = "mcn.coutinho@gail.com";
 
+export const STORAGE_KEY = "iptv_manager_data";
+export const BACKUP_APP_ID = "pocket-plan-manager";
+export const SCHEMA_VERSION = 11; // Bump together with a new step in MIGRATIONS (App.tsx)
+
 export const DEFAULT_TEMPLATES: MessageTemplate[] = [
   {
     id: '1',
@@ -24,9 +28,21 @@ export const DEFAULT_TEMPLATES: MessageTemplate[] = [
     title: 'Oferta Especial',
     type: 'offer',
     content: "Olá! Temos uma oferta especial para você hoje. Confira nossos novos canais!"
+  },
+  {
+    id: '4',
+    title: 'Dados de Acesso',
+    type: 'access_data',
+    content: "Olá {nome}, seguem seus dados de acesso ({plano}):\n\nUsuário: {usuario}\nSenha: {senha}{#url}\nURL: {url}{/url}{#mac}\nMAC: {mac}{/mac}\n\nVencimento: {data}. Qualquer dúvida, estamos à disposição!"
   }
 ];
 
+export const DEFAULT_REMINDER_RULES: ReminderRule[] = [
+  { id: 'r1', offsetDays: -3, templateType: 'due_soon', enabled: true },
+  { id: 'r2', offsetDays: 0, templateType: 'renewal', enabled: true },
+  { id: 'r3', offsetDays: 5, templateType: 'blocked', enabled: true }
+];
+
 export const TRANSLATIONS = {
   pt: {
     dashboard: 'Dashboard',
@@ -137,7 +153,7 @@ export const TRANSLATIONS = {
     sendWhatsApp: 'Enviar no WhatsApp',
     copyCode: 'Copiar Código',
     close: 'Fechar',
-    confirmRenew: 'Renovar {name} por {days} dias?\nNovo Vencimento: {date}\nTotal a Pagar Acumulado: {value}\n\nO cliente já pagou?',
+    confirmRenew: 'Renovar {name} por {period}?\nNovo Vencimento: {date}\nTotal a Pagar Acumulado: {value}\n\nO cliente já pagou?',
     missingFields: 'Faltando: {fields}',
     configSaved: 'Configurações salvas!',
     keySuccess: 'Ativado com Sucesso!',
@@ -166,6 +182,316 @@ export const TRANSLATIONS = {
     paymentDueToday: 'Pagamento Vence Hoje',
     paymentDue: 'Pagamento Vence',
     renewMessage: 'Mensagem Renovação',
+    backup: 'Backup e Restauração',
+    backupHint: 'Exporte todos os clientes, planos, contas, modelos e configurações para um arquivo e guarde-o em local seguro.',
+    exportBackup: 'Exportar Backup',
+    importBackup: 'Restaurar Backup',
+    confirmRestore: 'Restaurar backup de {date}?\n{clients} clientes, {plans} planos, {accounts} contas.\n\nTodos os dados atuais serão substituídos.',
+    restoreSuccess: 'Backup restaurado com sucesso!',
+    restoreError: 'Não foi possível restaurar o backup:\n{error}',
+    importCsv: 'Importar CSV',
+    exportCsv: 'Exportar CSV',
+    csvChooseFile: 'Selecione um arquivo CSV (no Excel: Salvar como > CSV).',
+    csvHasHeader: 'Primeira linha é cabeçalho',
+    csvMapping: 'Associe as colunas da planilha',
+    csvIgnoreColumn: '-- Ignorar --',
+    csvColumn: 'Coluna {n}',
+    csvDuplicates: 'Clientes já cadastrados (mesmo WhatsApp)',
+    csvSkipDuplicates: 'Ignorar',
+    csvUpdateDuplicates: 'Atualizar cadastro existente',
+    csvCreateMissingPlans: 'Criar planos não encontrados',
+    csvNew: 'Novo',
+    csvDuplicate: 'Já cadastrado',
+    csvRepeated: 'Repetido no arquivo',
+    csvInvalid: 'Incompleto',
+    csvNewPlan: 'Novo plano',
+    csvSummary: '{new} novos, {duplicates} duplicados, {invalid} com problemas',
+    csvPreviewLimit: 'Mostrando {shown} de {total} linhas',
+    csvImportButton: 'Importar',
+    csvImported: 'Importação concluída: {created} criados, {updated} atualizados, {skipped} ignorados.',
+    placeholdersHint: 'Toque para inserir um campo:',
+    conditionalHint: 'Trechos condicionais: {#pix}...{/pix} aparece só se houver Pix, {^pix}...{/pix} só se não houver.',
+    templatePreview: 'Pré-visualização',
+    previewClient: 'Cliente da pré-visualização',
+    sampleClient: 'Cliente Exemplo',
+    dueSoonType: 'A Vencer',
+    gratitudeType: 'Agradecimento',
+    supportSolvedType: 'Suporte Resolvido',
+    blockedType: 'Bloqueio',
+    contractAnniversaryType: 'Aniversário de Contrato',
+    clientBirthdayType: 'Aniversário do Cliente',
+    plansType: 'Planos',
+    comboType: 'Combo',
+    discountType: 'Desconto',
+    suggestedTemplates: 'Sugeridos para este cliente',
+    otherTemplates: 'Outros modelos',
+    noTemplates: 'Nenhum modelo cadastrado.',
+    birthdayToday: 'Aniversariante',
+    editMessageModel: 'Editar Modelo',
+    duplicate: 'Duplicar',
+    copySuffix: '(cópia)',
+    confirmDeleteTemplate: 'Excluir o modelo "{title}"?',
+    restoreDefaultTemplates: 'Restaurar Modelos Padrão',
+    confirmRestoreTemplates: 'Os modelos padrão serão recriados com o texto original. Seus modelos personalizados serão mantidos. Continuar?',
+    dragToReorder: 'Arraste para reordenar',
+    showMore: 'Ver mais',
+    showLess: 'Ver menos',
+    campaigns: 'Campanhas',
+    newCampaign: 'Nova Campanha',
+    campaignName: 'Nome da Campanha',
+    selectTemplate: 'Selecione um modelo',
+    audience: 'Público',
+    minOverdueDays: 'Vencidos há pelo menos (dias)',
+    birthdayMonth: 'Aniversariantes do mês',
+    anyMonth: 'Qualquer mês',
+    recipientsCount: '{count} clientes selecionados',
+    createCampaign: 'Criar Campanha',
+    noCampaigns: 'Nenhuma campanha criada.',
+    campaignProgress: '{done} de {total} concluídos ({sent} enviados, {skipped} pulados)',
+    sendAndNext: 'Enviar e Próximo',
+    skip: 'Pular',
+    markSent: 'Marcar como Enviado',
+    campaignFinished: 'Campanha concluída!',
+    statusSent: 'Enviado',
+    statusSkipped: 'Pulado',
+    statusPending: 'Na fila',
+    requeue: 'Toque para voltar à fila',
+    clientRemoved: 'Cliente removido',
+    confirmDeleteCampaign: 'Excluir a campanha "{name}"?',
+    back: 'Voltar',
+    nextInQueue: 'Próximo da fila',
+    messageHistory: 'Mensagens Enviadas',
+    noMessagesSent: 'Nenhuma mensagem registrada.',
+    chatOpened: 'Conversa aberta (mensagem personalizada)',
+    remindedToday: 'Já lembrado hoje',
+    remindedYesterday: 'Lembrado ontem',
+    remindedDaysAgo: 'Lembrado há {days} dias',
+    contextCharge: 'Cobrança Pix',
+    contextCampaign: 'Campanha',
+    contextGeneral: 'Geral',
+    reminderRules: 'Lembretes Automáticos',
+    reminderRulesHint: 'Cada regra gera no máximo um lembrete por vencimento do cliente.',
+    daysBeforeDue: 'dias antes do vencimento',
+    onDueDay: 'no dia do vencimento',
+    daysAfterDue: 'dias após o vencimento',
+    autoTemplate: 'Primeiro modelo do tipo',
+    addRule: 'Adicionar Regra',
+    remindersToday: 'Lembretes de Hoje',
+    noRemindersToday: 'Nenhum lembrete pendente hoje.',
+    sendNextReminder: 'Enviar Próximo ({count} restantes)',
+    ruleDaysBefore: '{days} dias antes',
+    ruleOnDay: 'No dia',
+    ruleDaysAfter: '{days} dias vencido',
+    birthdays: 'Aniversariantes',
+    birthdayTodayLabel: 'Hoje!',
+    birthdayInDays: 'em {days} dias',
+    noBirthdays: 'Nenhum aniversariante no período.',
+    sendCongrats: 'Parabenizar',
+    congratulated: 'Parabenizado',
+    giveBirthdayDiscount: 'Dar {percent}% na renovação',
+    discountOnNextRenewal: 'Desconto na próxima renovação: {value}',
+    showBirthdaysDash: 'Mostrar Aniversariantes (Dashboard)',
+    birthdayDaysAhead: 'Dias de antecedência (aniversários)',
+    birthdayDiscountPercent: 'Desconto de aniversário (%)',
+    analytics: 'Relatórios',
+    period: 'Período',
+    lastMonths: 'Últimos {months} meses',
+    thisYear: 'Este ano',
+    revenue: 'Receitas',
+    expenses: 'Despesas',
+    netProfit: 'Lucro Líquido',
+    mrr: 'Receita Mensal Recorrente',
+    mrrByPlan: 'Receita Recorrente por Plano',
+    averageTicket: 'Ticket Médio',
+    newClients: 'Novos Clientes',
+    churn: 'Cancelamentos (vencidos sem renovar)',
+    churnRate: 'Taxa de Cancelamento',
+    revenueVsExpenses: 'Receitas x Despesas',
+    clientsGrowth: 'Entrada e Saída de Clientes',
+    noData: 'Sem dados no período.',
+    activeClients: 'Clientes Ativos',
+    ledger: 'Extrato',
+    ledgerCharge: 'Cobrança',
+    ledgerPayment: 'Pagamento',
+    ledgerPartialPayment: 'Pagamento Parcial',
+    ledgerDiscount: 'Desconto',
+    ledgerRefund: 'Estorno',
+    ledgerWriteOff: 'Perdão de Dívida',
+    methodPix: 'Pix',
+    methodCash: 'Dinheiro',
+    methodTransfer: 'Transferência',
+    paymentMethod: 'Forma de Pagamento',
+    reference: 'Referência / TxID',
+    balance: 'Saldo',
+    noLedgerEntries: 'Nenhum lançamento registrado.',
+    newLedgerEntry: 'Novo Lançamento',
+    renewalCharge: 'Renovação {period}',
+    openingBalance: 'Saldo inicial',
+    credit: 'Crédito',
+    csvAdjustment: 'Ajuste pela importação CSV',
+    receipt: 'Recibo',
+    receiptTitle: 'Recibo de Pagamento',
+    receiptNumber: 'Recibo nº {number}',
+    receivedFrom: 'Recebemos de',
+    theAmountOf: 'a quantia de',
+    referringTo: 'Referente a',
+    periodCovered: 'Período',
+    validUntil: 'Válido até',
+    issuedAt: 'Emitido em',
+    printReceipt: 'Imprimir / PDF',
+    shareReceipt: 'Enviar pelo WhatsApp',
+    contextReceipt: 'Recibo',
+    pixKeyType: 'Tipo de Chave',
+    pixKeyCpf: 'CPF',
+    pixKeyCnpj: 'CNPJ',
+    pixKeyEmail: 'E-mail',
+    pixKeyPhone: 'Celular',
+    pixKeyRandom: 'Chave Aleatória',
+    pixCity: 'Cidade do Titular',
+    invalidPixKey: 'Chave Pix inválida para o tipo {type}.',
+    pixKeyNotConfigured: 'Configure uma chave Pix válida em Configurações para gerar o código.',
+    pixTxid: 'Identificador (TxID)',
+    downloadQr: 'Baixar QR (PNG)',
+    shareQr: 'Compartilhar QR',
+    reconcileStatement: 'Conciliar Extrato',
+    reconcileHelp: 'Importe o extrato do banco (OFX ou CSV). Os créditos são comparados com os clientes pendentes por TxID, valor e nome do pagador.',
+    reconcileNoCredits: 'Nenhum crédito encontrado no arquivo.',
+    matchTxid: 'TxID',
+    matchAmount: 'Valor',
+    matchName: 'Nome',
+    alreadyImported: 'Já lançado',
+    noMatch: '-- Sem correspondência --',
+    reconcileConfirm: 'Lançar {count} pagamentos',
+    reconcileDone: '{count} pagamentos lançados.',
+    bankStatement: 'Extrato bancário',
+    periodMonthly: 'Mensal',
+    periodQuarterly: 'Trimestral',
+    periodSemiannual: 'Semestral',
+    periodAnnual: 'Anual',
+    periodMonths: '{n} meses',
+    periodDays: '{n} dias',
+    unitMonths: 'Meses',
+    unitDays: 'Dias',
+    connections: 'Telas',
+    connectionsCount: '{n} tela(s)',
+    priceTable: 'Tabela de preços',
+    addPeriod: 'Adicionar período',
+    billingPeriod: 'Período de cobrança',
+    planPeriodRequired: 'Informe ao menos um período com duração e valor.',
+    priceChangeTitle: 'Alteração de preço',
+    effectiveFrom: 'Vigente a partir de',
+    keepCurrentClients: 'Manter o preço atual para os {count} clientes deste plano',
+    priceHistory: 'Histórico de preços',
+    noPriceChanges: 'Nenhuma alteração de preço.',
+    clientsKept: '{count} clientes mantidos no preço anterior',
+    scheduledPrice: 'R$ {price} a partir de {date}',
+    specialPrice: 'Preço especial (R$)',
+    specialPriceHint: 'Vazio = preço do plano (R$ {price})',
+    planClients: '{count} clientes',
+    monthlyRevenue: 'R$ {value}/mês',
+    confirmDeletePlan: 'Excluir o plano {name}?',
+    planInUse: '{count} clientes usam o plano {name}. Escolha o que fazer com eles antes de excluir.',
+    reassignTo: 'Transferir clientes para',
+    reassignAndDelete: 'Transferir e excluir',
+    archiveInstead: 'Arquivar (mantém os clientes neste plano)',
+    archivedPlans: 'Planos arquivados',
+    unarchive: 'Reativar',
+    planValue: 'Valor do plano',
+    couponDiscount: 'Cupom {code}',
+    referralDiscount: 'Indicação de {name}',
+    couponNotFound: 'Cupom não encontrado.',
+    couponNotStarted: 'Cupom ainda não está válido.',
+    couponExpired: 'Cupom expirado.',
+    couponExhausted: 'Cupom atingiu o limite de usos.',
+    couponAlreadyApplied: 'Este cupom já está aplicado a este cliente.',
+    couponDuplicate: 'Já existe um cupom {code}.',
+    couponPercentTooHigh: 'O desconto percentual não pode passar de 100%.',
+    coupons: 'Cupons de Desconto',
+    couponCode: 'Código do cupom',
+    couponValue: 'Desconto',
+    couponMaxUses: 'Limite de usos',
+    validFrom: 'Válido a partir de',
+    addCoupon: 'Criar Cupom',
+    noCoupons: 'Nenhum cupom criado.',
+    couponUses: '{uses}/{max} usos',
+    confirmDeleteCoupon: 'Excluir o cupom {code}? Descontos já aplicados continuam valendo.',
+    applyCoupon: 'Aplicar',
+    nextRenewalDiscounts: 'Descontos na próxima renovação',
+    noDiscounts: 'Nenhum desconto pendente.',
+    referredBy: 'Indicado por',
+    noReferrer: 'Ninguém',
+    referralCredit: 'Crédito por indicação (R$)',
+    subscriptionActive: 'Ativa',
+    subscriptionSuspended: 'Suspensa',
+    subscriptionCancelled: 'Cancelada',
+    lineNumber: 'Linha {n}',
+    removeLine: 'Remover linha',
+    addLine: 'Adicionar linha/tela',
+    panelUsername: 'Usuário no painel',
+    accessData: 'Dados de acesso',
+    panelPassword: 'Senha',
+    serverUrl: 'URL M3U / Xtream',
+    playerApp: 'Aplicativo',
+    deviceLabel: 'Identificação (ex: sala)',
+    removeDevice: 'Remover aparelho',
+    addDevice: 'Adicionar aparelho',
+    sendAccessData: 'Enviar acesso',
+    noAccessTemplate: 'Crie um modelo do tipo Dados de Acesso em Comunicação.',
+    searchClientAccess: 'Buscar por nome, usuário ou MAC...',
+    copy: 'Copiar',
+    contextAccess: 'Acesso',
+    accessDataType: 'Dados de Acesso',
+    deviceTvBox: 'TV Box',
+    deviceSmartTv: 'Smart TV',
+    deviceFireStick: 'Fire Stick',
+    devicePhone: 'Celular',
+    deviceComputer: 'Computador',
+    deviceOther: 'Outro',
+    suppliers: 'Fornecedores',
+    supplier: 'Fornecedor',
+    noSupplier: 'Sem fornecedor',
+    supplierName: 'Nome do fornecedor / painel',
+    supplierNotes: 'Observações (contato, link do painel...)',
+    creditCost: 'Custo por crédito (R$)',
+    credits: 'Créditos',
+    creditsCost: 'Custo de créditos',
+    creditBalance: 'Saldo: {credits} créditos',
+    activeLines: '{count} linhas ativas',
+    activations: 'Ativações',
+    margin: 'Margem',
+    addCredits: '+ Créditos',
+    creditHistory: 'Movimentações de créditos',
+    noCreditMovements: 'Nenhuma movimentação.',
+    creditPurchase: 'Compra',
+    creditActivation: 'Ativação',
+    creditAdjustment: 'Ajuste',
+    noSuppliers: 'Nenhum fornecedor cadastrado.',
+    confirmDeleteSupplier: 'Excluir o fornecedor {name}? {lines} linhas ficarão sem fornecedor.',
+    supplierLowCredits: '{name} tem {balance} créditos e esta renovação usa {credits}. Renovar mesmo assim?',
+    thisMonth: 'Este mês',
+    installmentAccount: 'Parcelada (valor total dividido)',
+    recurrenceWeekly: 'Recorrente semanal',
+    recurrenceMonthly: 'Recorrente mensal',
+    recurrenceYearly: 'Recorrente anual',
+    recurringAmount: 'Valor de cada conta',
+    expectedAmount: 'Valor previsto',
+    confirmPaidAmount: 'Confirmar valor pago',
+    endRecurrence: 'Encerrar recorrência',
+    confirmEndRecurrence: 'Encerrar a recorrência de {name}? A conta em aberto continua, mas nenhuma nova será criada.',
+    edit: 'Editar',
+    editInstallment: 'Editar parcela',
+    installmentDueDate: 'Vencimento',
+    installmentValue: 'Valor da parcela (R$)',
+    rescheduleFollowing: 'Reprogramar as parcelas seguintes a partir desta data',
+    lateFeePercent: 'Multa por atraso (%)',
+    dailyInterestPercent: 'Juros ao dia (%)',
+    installmentLateCharges: '{days} dia(s) de atraso: R$ {principal} + multa R$ {fee} + juros R$ {interest}',
+    installmentOriginalValue: 'Valor original: R$ {value}',
+    businessDaysOnly: 'Vencimento em dia útil (pula fins de semana e feriados nacionais)',
+    csvPlanPrice: 'Valor do plano (para planos novos)',
+    csvMissingPlanPrice: 'plano não cadastrado, informe o valor do plano',
+    csvInvalidDate: 'Data inválida',
+    matchSuggestion: 'Sugestão',
     trialExpiredMsg: 'Para Ativar e ter acesso a todas as Opções, Dashboard, Perfil da Empresa, Opções de Backup e Cadastros ilimitado de Clientes e Planos Requer Licença ativa'
   },
   en: {
@@ -277,7 +603,7 @@ export const TRANSLATIONS = {
     sendWhatsApp: 'Send on WhatsApp',
     copyCode: 'Copy Code',
     close: 'Close',
-    confirmRenew: 'Renew {name} for {days} days?\nNew Due Date: {date}\nAccumulated Total: {value}\n\nHas the client paid?',
+    confirmRenew: 'Renew {name} for {period}?\nNew Due Date: {date}\nAccumulated Total: {value}\n\nHas the client paid?',
     missingFields: 'Missing: {fields}',
     configSaved: 'Settings saved!',
     keySuccess: 'Activated Successfully!',
@@ -306,6 +632,316 @@ export const TRANSLATIONS = {
     paymentDueToday: 'Payment Due Today',
     paymentDue: 'Payment Due',
     renewMessage: 'Renewal Message',
+    backup: 'Backup & Restore',
+    backupHint: 'Export all clients, plans, accounts, templates and settings to a file and keep it somewhere safe.',
+    exportBackup: 'Export Backup',
+    importBackup: 'Restore Backup',
+    confirmRestore: 'Restore backup from {date}?\n{clients} clients, {plans} plans, {accounts} accounts.\n\nAll current data will be replaced.',
+    restoreSuccess: 'Backup restored successfully!',
+    restoreError: 'Could not restore the backup:\n{error}',
+    importCsv: 'Import CSV',
+    exportCsv: 'Export CSV',
+    csvChooseFile: 'Choose a CSV file (in Excel: Save as > CSV).',
+    csvHasHeader: 'First row is a header',
+    csvMapping: 'Map the spreadsheet columns',
+    csvIgnoreColumn: '-- Ignore --',
+    csvColumn: 'Column {n}',
+    csvDuplicates: 'Existing clients (same WhatsApp)',
+    csvSkipDuplicates: 'Skip',
+    csvUpdateDuplicates: 'Update existing record',
+    csvCreateMissingPlans: 'Create missing plans',
+    csvNew: 'New',
+    csvDuplicate: 'Already registered',
+    csvRepeated: 'Repeated in file',
+    csvInvalid: 'Incomplete',
+    csvNewPlan: 'New plan',
+    csvSummary: '{new} new, {duplicates} duplicates, {invalid} with problems',
+    csvPreviewLimit: 'Showing {shown} of {total} rows',
+    csvImportButton: 'Import',
+    csvImported: 'Import finished: {created} created, {updated} updated, {skipped} skipped.',
+    placeholdersHint: 'Tap to insert a field:',
+    conditionalHint: 'Conditional sections: {#pix}...{/pix} shows only when Pix is set, {^pix}...{/pix} only when it is not.',
+    templatePreview: 'Preview',
+    previewClient: 'Preview client',
+    sampleClient: 'Sample Client',
+    dueSoonType: 'Due Soon',
+    gratitudeType: 'Gratitude',
+    supportSolvedType: 'Support Solved',
+    blockedType: 'Blocked',
+    contractAnniversaryType: 'Contract Anniversary',
+    clientBirthdayType: 'Client Birthday',
+    plansType: 'Plans',
+    comboType: 'Combo',
+    discountType: 'Discount',
+    suggestedTemplates: 'Suggested for this client',
+    otherTemplates: 'Other templates',
+    noTemplates: 'No templates registered.',
+    birthdayToday: 'Birthday today',
+    editMessageModel: 'Edit Template',
+    duplicate: 'Duplicate',
+    copySuffix: '(copy)',
+    confirmDeleteTemplate: 'Delete template "{title}"?',
+    restoreDefaultTemplates: 'Restore Default Templates',
+    confirmRestoreTemplates: 'Default templates will be recreated with their original text. Your custom templates are kept. Continue?',
+    dragToReorder: 'Drag to reorder',
+    showMore: 'Show more',
+    showLess: 'Show less',
+    campaigns: 'Campaigns',
+    newCampaign: 'New Campaign',
+    campaignName: 'Campaign Name',
+    selectTemplate: 'Select a template',
+    audience: 'Audience',
+    minOverdueDays: 'Overdue for at least (days)',
+    birthdayMonth: 'Birthday month',
+    anyMonth: 'Any month',
+    recipientsCount: '{count} clients selected',
+    createCampaign: 'Create Campaign',
+    noCampaigns: 'No campaigns yet.',
+    campaignProgress: '{done} of {total} done ({sent} sent, {skipped} skipped)',
+    sendAndNext: 'Send and Next',
+    skip: 'Skip',
+    markSent: 'Mark as Sent',
+    campaignFinished: 'Campaign finished!',
+    statusSent: 'Sent',
+    statusSkipped: 'Skipped',
+    statusPending: 'Queued',
+    requeue: 'Tap to put back in the queue',
+    clientRemoved: 'Client removed',
+    confirmDeleteCampaign: 'Delete campaign "{name}"?',
+    back: 'Back',
+    nextInQueue: 'Next in queue',
+    messageHistory: 'Sent Messages',
+    noMessagesSent: 'No messages recorded.',
+    chatOpened: 'Chat opened (custom message)',
+    remindedToday: 'Already reminded today',
+    remindedYesterday: 'Reminded yesterday',
+    remindedDaysAgo: 'Reminded {days} days ago',
+    contextCharge: 'Pix charge',
+    contextCampaign: 'Campaign',
+    contextGeneral: 'General',
+    reminderRules: 'Automated Reminders',
+    reminderRulesHint: 'Each rule produces at most one reminder per client due date.',
+    daysBeforeDue: 'days before due date',
+    onDueDay: 'on the due date',
+    daysAfterDue: 'days after due date',
+    autoTemplate: 'First template of the type',
+    addRule: 'Add Rule',
+    remindersToday: 'Today\'s Reminders',
+    noRemindersToday: 'No pending reminders today.',
+    sendNextReminder: 'Send Next ({count} left)',
+    ruleDaysBefore: '{days} days before',
+    ruleOnDay: 'On the day',
+    ruleDaysAfter: '{days} days overdue',
+    birthdays: 'Birthdays',
+    birthdayTodayLabel: 'Today!',
+    birthdayInDays: 'in {days} days',
+    noBirthdays: 'No birthdays in this period.',
+    sendCongrats: 'Congratulate',
+    congratulated: 'Congratulated',
+    giveBirthdayDiscount: 'Give {percent}% on renewal',
+    discountOnNextRenewal: 'Discount on next renewal: {value}',
+    showBirthdaysDash: 'Show Birthdays (Dashboard)',
+    birthdayDaysAhead: 'Days ahead (birthdays)',
+    birthdayDiscountPercent: 'Birthday discount (%)',
+    analytics: 'Analytics',
+    period: 'Period',
+    lastMonths: 'Last {months} months',
+    thisYear: 'This year',
+    revenue: 'Revenue',
+    expenses: 'Expenses',
+    netProfit: 'Net Profit',
+    mrr: 'Monthly Recurring Revenue',
+    mrrByPlan: 'MRR by Plan',
+    averageTicket: 'Average Ticket',
+    newClients: 'New Clients',
+    churn: 'Churn (lapsed without renewal)',
+    churnRate: 'Churn Rate',
+    revenueVsExpenses: 'Revenue vs Expenses',
+    clientsGrowth: 'Client Growth and Churn',
+    noData: 'No data in this period.',
+    activeClients: 'Active Clients',
+    ledger: 'Ledger',
+    ledgerCharge: 'Charge',
+    ledgerPayment: 'Payment',
+    ledgerPartialPayment: 'Partial Payment',
+    ledgerDiscount: 'Discount',
+    ledgerRefund: 'Refund',
+    ledgerWriteOff: 'Write-off',
+    methodPix: 'Pix',
+    methodCash: 'Cash',
+    methodTransfer: 'Transfer',
+    paymentMethod: 'Payment Method',
+    reference: 'Reference / TxID',
+    balance: 'Balance',
+    noLedgerEntries: 'No entries recorded.',
+    newLedgerEntry: 'New Entry',
+    renewalCharge: 'Renewal {period}',
+    openingBalance: 'Opening balance',
+    credit: 'Credit',
+    csvAdjustment: 'Adjusted by CSV import',
+    receipt: 'Receipt',
+    receiptTitle: 'Payment Receipt',
+    receiptNumber: 'Receipt #{number}',
+    receivedFrom: 'Received from',
+    theAmountOf: 'the amount of',
+    referringTo: 'Regarding',
+    periodCovered: 'Period',
+    validUntil: 'Valid until',
+    issuedAt: 'Issued on',
+    printReceipt: 'Print / PDF',
+    shareReceipt: 'Send via WhatsApp',
+    contextReceipt: 'Receipt',
+    pixKeyType: 'Key Type',
+    pixKeyCpf: 'CPF',
+    pixKeyCnpj: 'CNPJ',
+    pixKeyEmail: 'E-mail',
+    pixKeyPhone: 'Phone',
+    pixKeyRandom: 'Random Key',
+    pixCity: 'Holder City',
+    invalidPixKey: 'Invalid Pix key for type {type}.',
+    pixKeyNotConfigured: 'Set a valid Pix key in Settings to generate the code.',
+    pixTxid: 'Identifier (TxID)',
+    downloadQr: 'Download QR (PNG)',
+    shareQr: 'Share QR',
+    reconcileStatement: 'Reconcile Statement',
+    reconcileHelp: 'Import your bank statement (OFX or CSV). Credits are matched to pending clients by TxID, amount and payer name.',
+    reconcileNoCredits: 'No credits found in the file.',
+    matchTxid: 'TxID',
+    matchAmount: 'Amount',
+    matchName: 'Name',
+    alreadyImported: 'Already recorded',
+    noMatch: '-- No match --',
+    reconcileConfirm: 'Record {count} payments',
+    reconcileDone: '{count} payments recorded.',
+    bankStatement: 'Bank statement',
+    periodMonthly: 'Monthly',
+    periodQuarterly: 'Quarterly',
+    periodSemiannual: 'Semiannual',
+    periodAnnual: 'Annual',
+    periodMonths: '{n} months',
+    periodDays: '{n} days',
+    unitMonths: 'Months',
+    unitDays: 'Days',
+    connections: 'Screens',
+    connectionsCount: '{n} screen(s)',
+    priceTable: 'Price table',
+    addPeriod: 'Add period',
+    billingPeriod: 'Billing period',
+    planPeriodRequired: 'Add at least one period with duration and price.',
+    priceChangeTitle: 'Price change',
+    effectiveFrom: 'Effective from',
+    keepCurrentClients: 'Keep the current price for the {count} clients on this plan',
+    priceHistory: 'Price history',
+    noPriceChanges: 'No price changes.',
+    clientsKept: '{count} clients kept on the old price',
+    scheduledPrice: 'R$ {price} from {date}',
+    specialPrice: 'Special price (R$)',
+    specialPriceHint: 'Empty = plan price (R$ {price})',
+    planClients: '{count} clients',
+    monthlyRevenue: 'R$ {value}/month',
+    confirmDeletePlan: 'Delete plan {name}?',
+    planInUse: '{count} clients use plan {name}. Choose what to do with them before deleting.',
+    reassignTo: 'Move clients to',
+    reassignAndDelete: 'Move and delete',
+    archiveInstead: 'Archive (keeps clients on this plan)',
+    archivedPlans: 'Archived plans',
+    unarchive: 'Restore',
+    planValue: 'Plan price',
+    couponDiscount: 'Coupon {code}',
+    referralDiscount: 'Referral of {name}',
+    couponNotFound: 'Coupon not found.',
+    couponNotStarted: 'Coupon is not valid yet.',
+    couponExpired: 'Coupon expired.',
+    couponExhausted: 'Coupon reached its usage limit.',
+    couponAlreadyApplied: 'This coupon is already applied to this client.',
+    couponDuplicate: 'A coupon {code} already exists.',
+    couponPercentTooHigh: 'A percent discount cannot exceed 100%.',
+    coupons: 'Discount Coupons',
+    couponCode: 'Coupon code',
+    couponValue: 'Discount',
+    couponMaxUses: 'Max uses',
+    validFrom: 'Valid from',
+    addCoupon: 'Create Coupon',
+    noCoupons: 'No coupons yet.',
+    couponUses: '{uses}/{max} uses',
+    confirmDeleteCoupon: 'Delete coupon {code}? Discounts already applied stay valid.',
+    applyCoupon: 'Apply',
+    nextRenewalDiscounts: 'Discounts on next renewal',
+    noDiscounts: 'No pending discounts.',
+    referredBy: 'Referred by',
+    noReferrer: 'Nobody',
+    referralCredit: 'Referral credit (R$)',
+    subscriptionActive: 'Active',
+    subscriptionSuspended: 'Suspended',
+    subscriptionCancelled: 'Cancelled',
+    lineNumber: 'Line {n}',
+    removeLine: 'Remove line',
+    addLine: 'Add line/screen',
+    panelUsername: 'Panel username',
+    accessData: 'Access data',
+    panelPassword: 'Password',
+    serverUrl: 'M3U / Xtream URL',
+    playerApp: 'Player app',
+    deviceLabel: 'Label (e.g. living room)',
+    removeDevice: 'Remove device',
+    addDevice: 'Add device',
+    sendAccessData: 'Send access',
+    noAccessTemplate: 'Create an Access Data template in Communication.',
+    searchClientAccess: 'Search by name, username or MAC...',
+    copy: 'Copy',
+    contextAccess: 'Access',
+    accessDataType: 'Access Data',
+    deviceTvBox: 'TV Box',
+    deviceSmartTv: 'Smart TV',
+    deviceFireStick: 'Fire Stick',
+    devicePhone: 'Phone',
+    deviceComputer: 'Computer',
+    deviceOther: 'Other',
+    suppliers: 'Suppliers',
+    supplier: 'Supplier',
+    noSupplier: 'No supplier',
+    supplierName: 'Supplier / panel name',
+    supplierNotes: 'Notes (contact, panel link...)',
+    creditCost: 'Cost per credit (R$)',
+    credits: 'Credits',
+    creditsCost: 'Credits cost',
+    creditBalance: 'Balance: {credits} credits',
+    activeLines: '{count} active lines',
+    activations: 'Activations',
+    margin: 'Margin',
+    addCredits: '+ Credits',
+    creditHistory: 'Credit movements',
+    noCreditMovements: 'No movements yet.',
+    creditPurchase: 'Purchase',
+    creditActivation: 'Activation',
+    creditAdjustment: 'Adjustment',
+    noSuppliers: 'No suppliers yet.',
+    confirmDeleteSupplier: 'Delete supplier {name}? {lines} lines will have no supplier.',
+    supplierLowCredits: '{name} has {balance} credits and this renewal uses {credits}. Renew anyway?',
+    thisMonth: 'This month',
+    installmentAccount: 'Installments (total split)',
+    recurrenceWeekly: 'Weekly recurring',
+    recurrenceMonthly: 'Monthly recurring',
+    recurrenceYearly: 'Yearly recurring',
+    recurringAmount: 'Amount of each bill',
+    expectedAmount: 'Expected amount',
+    confirmPaidAmount: 'Confirm amount paid',
+    endRecurrence: 'End recurrence',
+    confirmEndRecurrence: 'End recurrence of {name}? The open bill stays, but no new ones will be created.',
+    edit: 'Edit',
+    editInstallment: 'Edit installment',
+    installmentDueDate: 'Due date',
+    installmentValue: 'Installment amount (R$)',
+    rescheduleFollowing: 'Reschedule the following installments from this date',
+    lateFeePercent: 'Late fee (%)',
+    dailyInterestPercent: 'Daily interest (%)',
+    installmentLateCharges: '{days} day(s) late: R$ {principal} + fee R$ {fee} + interest R$ {interest}',
+    installmentOriginalValue: 'Original amount: R$ {value}',
+    businessDaysOnly: 'Due on business days (skip weekends and national holidays)',
+    csvPlanPrice: 'Plan price (for new plans)',
+    csvMissingPlanPrice: 'unknown plan, map the plan price',
+    csvInvalidDate: 'Invalid date',
+    matchSuggestion: 'Suggestion',
     trialExpiredMsg: 'To Activate and access all Options, Dashboard, Company Profile, Backup Options and Unlimited Client and Plan Registrations Requires Active License'
   },
   es: {
@@ -417,7 +1053,7 @@ export const TRANSLATIONS = {
     sendWhatsApp: 'Enviar por WhatsApp',
     copyCode: 'Copiar Código',
     close: 'Cerrar',
-    confirmRenew: '¿Renovar {name} por {days} días?\nNuevo Vencimiento: {date}\nTotal a Pagar Acumulado: {value}\n\n¿El cliente ya pagó?',
+    confirmRenew: '¿Renovar {name} por {period}?\nNuevo Vencimiento: {date}\nTotal a Pagar Acumulado: {value}\n\n¿El cliente ya pagó?',
     missingFields: 'Faltando: {fields}',
     configSaved: '¡Configuraciones guardadas!',
     keySuccess: '¡Activado con Éxito!',
@@ -446,6 +1082,316 @@ export const TRANSLATIONS = {
     paymentDueToday: 'Pago Vence Hoy',
     paymentDue: 'Pago Vence',
     renewMessage: 'Mensaje Renovación',
+    backup: 'Respaldo y Restauración',
+    backupHint: 'Exporte todos los clientes, planes, cuentas, plantillas y configuraciones a un archivo y guárdelo en un lugar seguro.',
+    exportBackup: 'Exportar Respaldo',
+    importBackup: 'Restaurar Respaldo',
+    confirmRestore: '¿Restaurar respaldo de {date}?\n{clients} clientes, {plans} planes, {accounts} cuentas.\n\nTodos los datos actuales serán reemplazados.',
+    restoreSuccess: '¡Respaldo restaurado con éxito!',
+    restoreError: 'No fue posible restaurar el respaldo:\n{error}',
+    importCsv: 'Importar CSV',
+    exportCsv: 'Exportar CSV',
+    csvChooseFile: 'Seleccione un archivo CSV (en Excel: Guardar como > CSV).',
+    csvHasHeader: 'La primera fila es encabezado',
+    csvMapping: 'Asocie las columnas de la planilla',
+    csvIgnoreColumn: '-- Ignorar --',
+    csvColumn: 'Columna {n}',
+    csvDuplicates: 'Clientes ya registrados (mismo WhatsApp)',
+    csvSkipDuplicates: 'Ignorar',
+    csvUpdateDuplicates: 'Actualizar registro existente',
+    csvCreateMissingPlans: 'Crear planes no encontrados',
+    csvNew: 'Nuevo',
+    csvDuplicate: 'Ya registrado',
+    csvRepeated: 'Repetido en el archivo',
+    csvInvalid: 'Incompleto',
+    csvNewPlan: 'Nuevo plan',
+    csvSummary: '{new} nuevos, {duplicates} duplicados, {invalid} con problemas',
+    csvPreviewLimit: 'Mostrando {shown} de {total} filas',
+    csvImportButton: 'Importar',
+    csvImported: 'Importación concluida: {created} creados, {updated} actualizados, {skipped} ignorados.',
+    placeholdersHint: 'Toque para insertar un campo:',
+    conditionalHint: 'Secciones condicionales: {#pix}...{/pix} aparece solo si hay Pix, {^pix}...{/pix} solo si no hay.',
+    templatePreview: 'Vista previa',
+    previewClient: 'Cliente de la vista previa',
+    sampleClient: 'Cliente Ejemplo',
+    dueSoonType: 'Por Vencer',
+    gratitudeType: 'Agradecimiento',
+    supportSolvedType: 'Soporte Resuelto',
+    blockedType: 'Bloqueo',
+    contractAnniversaryType: 'Aniversario de Contrato',
+    clientBirthdayType: 'Cumpleaños del Cliente',
+    plansType: 'Planes',
+    comboType: 'Combo',
+    discountType: 'Descuento',
+    suggestedTemplates: 'Sugeridos para este cliente',
+    otherTemplates: 'Otras plantillas',
+    noTemplates: 'Ninguna plantilla registrada.',
+    birthdayToday: 'Cumpleañero',
+    editMessageModel: 'Editar Plantilla',
+    duplicate: 'Duplicar',
+    copySuffix: '(copia)',
+    confirmDeleteTemplate: '¿Eliminar la plantilla "{title}"?',
+    restoreDefaultTemplates: 'Restaurar Plantillas Predeterminadas',
+    confirmRestoreTemplates: 'Las plantillas predeterminadas se recrearán con el texto original. Sus plantillas personalizadas se mantienen. ¿Continuar?',
+    dragToReorder: 'Arrastre para reordenar',
+    showMore: 'Ver más',
+    showLess: 'Ver menos',
+    campaigns: 'Campañas',
+    newCampaign: 'Nueva Campaña',
+    campaignName: 'Nombre de la Campaña',
+    selectTemplate: 'Seleccione una plantilla',
+    audience: 'Público',
+    minOverdueDays: 'Vencidos hace al menos (días)',
+    birthdayMonth: 'Cumpleañeros del mes',
+    anyMonth: 'Cualquier mes',
+    recipientsCount: '{count} clientes seleccionados',
+    createCampaign: 'Crear Campaña',
+    noCampaigns: 'Ninguna campaña creada.',
+    campaignProgress: '{done} de {total} concluidos ({sent} enviados, {skipped} omitidos)',
+    sendAndNext: 'Enviar y Siguiente',
+    skip: 'Omitir',
+    markSent: 'Marcar como Enviado',
+    campaignFinished: '¡Campaña concluida!',
+    statusSent: 'Enviado',
+    statusSkipped: 'Omitido',
+    statusPending: 'En cola',
+    requeue: 'Toque para volver a la cola',
+    clientRemoved: 'Cliente eliminado',
+    confirmDeleteCampaign: '¿Eliminar la campaña "{name}"?',
+    back: 'Volver',
+    nextInQueue: 'Siguiente en la cola',
+    messageHistory: 'Mensajes Enviados',
+    noMessagesSent: 'Ningún mensaje registrado.',
+    chatOpened: 'Chat abierto (mensaje personalizado)',
+    remindedToday: 'Ya recordado hoy',
+    remindedYesterday: 'Recordado ayer',
+    remindedDaysAgo: 'Recordado hace {days} días',
+    contextCharge: 'Cobro Pix',
+    contextCampaign: 'Campaña',
+    contextGeneral: 'General',
+    reminderRules: 'Recordatorios Automáticos',
+    reminderRulesHint: 'Cada regla genera como máximo un recordatorio por vencimiento del cliente.',
+    daysBeforeDue: 'días antes del vencimiento',
+    onDueDay: 'el día del vencimiento',
+    daysAfterDue: 'días después del vencimiento',
+    autoTemplate: 'Primera plantilla del tipo',
+    addRule: 'Añadir Regla',
+    remindersToday: 'Recordatorios de Hoy',
+    noRemindersToday: 'Ningún recordatorio pendiente hoy.',
+    sendNextReminder: 'Enviar Siguiente ({count} restantes)',
+    ruleDaysBefore: '{days} días antes',
+    ruleOnDay: 'El día',
+    ruleDaysAfter: '{days} días vencido',
+    birthdays: 'Cumpleañeros',
+    birthdayTodayLabel: '¡Hoy!',
+    birthdayInDays: 'en {days} días',
+    noBirthdays: 'Ningún cumpleañero en el período.',
+    sendCongrats: 'Felicitar',
+    congratulated: 'Felicitado',
+    giveBirthdayDiscount: 'Dar {percent}% en la renovación',
+    discountOnNextRenewal: 'Descuento en la próxima renovación: {value}',
+    showBirthdaysDash: 'Mostrar Cumpleañeros (Tablero)',
+    birthdayDaysAhead: 'Días de anticipación (cumpleaños)',
+    birthdayDiscountPercent: 'Descuento de cumpleaños (%)',
+    analytics: 'Informes',
+    period: 'Período',
+    lastMonths: 'Últimos {months} meses',
+    thisYear: 'Este año',
+    revenue: 'Ingresos',
+    expenses: 'Gastos',
+    netProfit: 'Beneficio Neto',
+    mrr: 'Ingreso Mensual Recurrente',
+    mrrByPlan: 'Ingreso Recurrente por Plan',
+    averageTicket: 'Ticket Promedio',
+    newClients: 'Nuevos Clientes',
+    churn: 'Bajas (vencidos sin renovar)',
+    churnRate: 'Tasa de Bajas',
+    revenueVsExpenses: 'Ingresos vs Gastos',
+    clientsGrowth: 'Entrada y Salida de Clientes',
+    noData: 'Sin datos en el período.',
+    activeClients: 'Clientes Activos',
+    ledger: 'Extracto',
+    ledgerCharge: 'Cargo',
+    ledgerPayment: 'Pago',
+    ledgerPartialPayment: 'Pago Parcial',
+    ledgerDiscount: 'Descuento',
+    ledgerRefund: 'Reembolso',
+    ledgerWriteOff: 'Condonación',
+    methodPix: 'Pix',
+    methodCash: 'Efectivo',
+    methodTransfer: 'Transferencia',
+    paymentMethod: 'Forma de Pago',
+    reference: 'Referencia / TxID',
+    balance: 'Saldo',
+    noLedgerEntries: 'Ningún movimiento registrado.',
+    newLedgerEntry: 'Nuevo Movimiento',
+    renewalCharge: 'Renovación {period}',
+    openingBalance: 'Saldo inicial',
+    credit: 'Crédito',
+    csvAdjustment: 'Ajuste por importación CSV',
+    receipt: 'Recibo',
+    receiptTitle: 'Recibo de Pago',
+    receiptNumber: 'Recibo nº {number}',
+    receivedFrom: 'Recibimos de',
+    theAmountOf: 'la cantidad de',
+    referringTo: 'Referente a',
+    periodCovered: 'Período',
+    validUntil: 'Válido hasta',
+    issuedAt: 'Emitido el',
+    printReceipt: 'Imprimir / PDF',
+    shareReceipt: 'Enviar por WhatsApp',
+    contextReceipt: 'Recibo',
+    pixKeyType: 'Tipo de Clave',
+    pixKeyCpf: 'CPF',
+    pixKeyCnpj: 'CNPJ',
+    pixKeyEmail: 'E-mail',
+    pixKeyPhone: 'Celular',
+    pixKeyRandom: 'Clave Aleatoria',
+    pixCity: 'Ciudad del Titular',
+    invalidPixKey: 'Clave Pix inválida para el tipo {type}.',
+    pixKeyNotConfigured: 'Configure una clave Pix válida en Configuración para generar el código.',
+    pixTxid: 'Identificador (TxID)',
+    downloadQr: 'Descargar QR (PNG)',
+    shareQr: 'Compartir QR',
+    reconcileStatement: 'Conciliar Extracto',
+    reconcileHelp: 'Importe el extracto bancario (OFX o CSV). Los créditos se comparan con los clientes pendientes por TxID, valor y nombre del pagador.',
+    reconcileNoCredits: 'No se encontraron créditos en el archivo.',
+    matchTxid: 'TxID',
+    matchAmount: 'Valor',
+    matchName: 'Nombre',
+    alreadyImported: 'Ya registrado',
+    noMatch: '-- Sin coincidencia --',
+    reconcileConfirm: 'Registrar {count} pagos',
+    reconcileDone: '{count} pagos registrados.',
+    bankStatement: 'Extracto bancario',
+    periodMonthly: 'Mensual',
+    periodQuarterly: 'Trimestral',
+    periodSemiannual: 'Semestral',
+    periodAnnual: 'Anual',
+    periodMonths: '{n} meses',
+    periodDays: '{n} días',
+    unitMonths: 'Meses',
+    unitDays: 'Días',
+    connections: 'Pantallas',
+    connectionsCount: '{n} pantalla(s)',
+    priceTable: 'Tabla de precios',
+    addPeriod: 'Agregar período',
+    billingPeriod: 'Período de cobro',
+    planPeriodRequired: 'Informe al menos un período con duración y valor.',
+    priceChangeTitle: 'Cambio de precio',
+    effectiveFrom: 'Vigente desde',
+    keepCurrentClients: 'Mantener el precio actual para los {count} clientes de este plan',
+    priceHistory: 'Historial de precios',
+    noPriceChanges: 'Ningún cambio de precio.',
+    clientsKept: '{count} clientes mantenidos en el precio anterior',
+    scheduledPrice: 'R$ {price} desde {date}',
+    specialPrice: 'Precio especial (R$)',
+    specialPriceHint: 'Vacío = precio del plan (R$ {price})',
+    planClients: '{count} clientes',
+    monthlyRevenue: 'R$ {value}/mes',
+    confirmDeletePlan: '¿Eliminar el plan {name}?',
+    planInUse: '{count} clientes usan el plan {name}. Elija qué hacer con ellos antes de eliminar.',
+    reassignTo: 'Transferir clientes a',
+    reassignAndDelete: 'Transferir y eliminar',
+    archiveInstead: 'Archivar (mantiene los clientes en este plan)',
+    archivedPlans: 'Planes archivados',
+    unarchive: 'Reactivar',
+    planValue: 'Valor del plan',
+    couponDiscount: 'Cupón {code}',
+    referralDiscount: 'Referido: {name}',
+    couponNotFound: 'Cupón no encontrado.',
+    couponNotStarted: 'El cupón aún no es válido.',
+    couponExpired: 'Cupón vencido.',
+    couponExhausted: 'El cupón alcanzó el límite de usos.',
+    couponAlreadyApplied: 'Este cupón ya está aplicado a este cliente.',
+    couponDuplicate: 'Ya existe un cupón {code}.',
+    couponPercentTooHigh: 'El descuento porcentual no puede superar 100%.',
+    coupons: 'Cupones de Descuento',
+    couponCode: 'Código del cupón',
+    couponValue: 'Descuento',
+    couponMaxUses: 'Límite de usos',
+    validFrom: 'Válido desde',
+    addCoupon: 'Crear Cupón',
+    noCoupons: 'Ningún cupón creado.',
+    couponUses: '{uses}/{max} usos',
+    confirmDeleteCoupon: '¿Eliminar el cupón {code}? Los descuentos ya aplicados siguen vigentes.',
+    applyCoupon: 'Aplicar',
+    nextRenewalDiscounts: 'Descuentos en la próxima renovación',
+    noDiscounts: 'Ningún descuento pendiente.',
+    referredBy: 'Referido por',
+    noReferrer: 'Nadie',
+    referralCredit: 'Crédito por referido (R$)',
+    subscriptionActive: 'Activa',
+    subscriptionSuspended: 'Suspendida',
+    subscriptionCancelled: 'Cancelada',
+    lineNumber: 'Línea {n}',
+    removeLine: 'Quitar línea',
+    addLine: 'Agregar línea/pantalla',
+    panelUsername: 'Usuario en el panel',
+    accessData: 'Datos de acceso',
+    panelPassword: 'Contraseña',
+    serverUrl: 'URL M3U / Xtream',
+    playerApp: 'Aplicación',
+    deviceLabel: 'Identificación (ej: sala)',
+    removeDevice: 'Quitar dispositivo',
+    addDevice: 'Agregar dispositivo',
+    sendAccessData: 'Enviar acceso',
+    noAccessTemplate: 'Cree una plantilla de tipo Datos de Acceso en Comunicación.',
+    searchClientAccess: 'Buscar por nombre, usuario o MAC...',
+    copy: 'Copiar',
+    contextAccess: 'Acceso',
+    accessDataType: 'Datos de Acceso',
+    deviceTvBox: 'TV Box',
+    deviceSmartTv: 'Smart TV',
+    deviceFireStick: 'Fire Stick',
+    devicePhone: 'Celular',
+    deviceComputer: 'Computadora',
+    deviceOther: 'Otro',
+    suppliers: 'Proveedores',
+    supplier: 'Proveedor',
+    noSupplier: 'Sin proveedor',
+    supplierName: 'Nombre del proveedor / panel',
+    supplierNotes: 'Observaciones (contacto, enlace del panel...)',
+    creditCost: 'Costo por crédito (R$)',
+    credits: 'Créditos',
+    creditsCost: 'Costo de créditos',
+    creditBalance: 'Saldo: {credits} créditos',
+    activeLines: '{count} líneas activas',
+    activations: 'Activaciones',
+    margin: 'Margen',
+    addCredits: '+ Créditos',
+    creditHistory: 'Movimientos de créditos',
+    noCreditMovements: 'Ningún movimiento.',
+    creditPurchase: 'Compra',
+    creditActivation: 'Activación',
+    creditAdjustment: 'Ajuste',
+    noSuppliers: 'Ningún proveedor registrado.',
+    confirmDeleteSupplier: '¿Eliminar el proveedor {name}? {lines} líneas quedarán sin proveedor.',
+    supplierLowCredits: '{name} tiene {balance} créditos y esta renovación usa {credits}. ¿Renovar de todos modos?',
+    thisMonth: 'Este mes',
+    installmentAccount: 'En cuotas (total dividido)',
+    recurrenceWeekly: 'Recurrente semanal',
+    recurrenceMonthly: 'Recurrente mensual',
+    recurrenceYearly: 'Recurrente anual',
+    recurringAmount: 'Valor de cada factura',
+    expectedAmount: 'Valor previsto',
+    confirmPaidAmount: 'Confirmar valor pagado',
+    endRecurrence: 'Terminar recurrencia',
+    confirmEndRecurrence: '¿Terminar la recurrencia de {name}? La factura abierta sigue, pero no se crearán nuevas.',
+    edit: 'Editar',
+    editInstallment: 'Editar cuota',
+    installmentDueDate: 'Vencimiento',
+    installmentValue: 'Valor de la cuota (R$)',
+    rescheduleFollowing: 'Reprogramar las cuotas siguientes desde esta fecha',
+    lateFeePercent: 'Multa por atraso (%)',
+    dailyInterestPercent: 'Interés diario (%)',
+    installmentLateCharges: '{days} día(s) de atraso: R$ {principal} + multa R$ {fee} + interés R$ {interest}',
+    installmentOriginalValue: 'Valor original: R$ {value}',
+    businessDaysOnly: 'Vencimiento en día hábil (salta fines de semana y feriados nacionales)',
+    csvPlanPrice: 'Valor del plan (para planes nuevos)',
+    csvMissingPlanPrice: 'plan no registrado, indique el valor del plan',
+    csvInvalidDate: 'Fecha no válida',
+    matchSuggestion: 'Sugerencia',
     trialExpiredMsg: 'Para Activar y tener acceso a todas las Opciones, Panel, Perfil de Empresa, Opciones de Respaldo y Registros Ilimitados de Clientes y Planes Requiere Licencia Activa'
   }
 };
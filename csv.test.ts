@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsvAmount, parseCsvDate } from './csv';
+
+describe('parseCsvDate', () => {
+  it('reads ISO and day-first dates', () => {
+    expect(parseCsvDate('2026-03-05')).toBe('2026-03-05');
+    expect(parseCsvDate('2026-03-05T10:00:00')).toBe('2026-03-05');
+    expect(parseCsvDate('5/3/2026')).toBe('2026-03-05');
+    expect(parseCsvDate('05-03-26')).toBe('2026-03-05');
+    expect(parseCsvDate('  ')).toBe('');
+  });
+
+  it('puts two-digit years still to come in the 1900s for past dates', () => {
+    expect(parseCsvDate('15/06/85', true)).toBe('1985-06-15');
+    expect(parseCsvDate('15/06/05', true)).toBe('2005-06-15');
+    expect(parseCsvDate('15/06/85')).toBe('2085-06-15');
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseCsvDate('31/02/2026')).toBeUndefined();
+    expect(parseCsvDate('29/02/2026')).toBeUndefined();
+    expect(parseCsvDate('29/02/2024')).toBe('2024-02-29');
+    expect(parseCsvDate('12/13/2026')).toBeUndefined();
+    expect(parseCsvDate('2026-13-01')).toBeUndefined();
+    expect(parseCsvDate('2026-04-31')).toBeUndefined();
+    expect(parseCsvDate('00/01/2026')).toBeUndefined();
+    expect(parseCsvDate('tomorrow')).toBeUndefined();
+  });
+});
+
+describe('parseCsvAmount', () => {
+  it('reads comma and dot decimals', () => {
+    expect(parseCsvAmount('1.234,56')).toBe(1234.56);
+    expect(parseCsvAmount('R$ 30,00')).toBe(30);
+    expect(parseCsvAmount('12.50')).toBe(12.5);
+    expect(parseCsvAmount('1234.56')).toBe(1234.56);
+  });
+
+  it('treats dots before groups of three digits as thousands separators', () => {
+    expect(parseCsvAmount('1.234')).toBe(1234);
+    expect(parseCsvAmount('R$ 1.234.567')).toBe(1234567);
+    expect(parseCsvAmount('-1.500')).toBe(-1500);
+    expect(parseCsvAmount('1.2345')).toBe(1.2345);
+  });
+});
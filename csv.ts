@@ -0,0 +1,74 @@
+// Spreadsheets exported in pt-BR use ';' because ',' is the decimal separator.
+const detectCsvDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/)[0] || '';
+  return (firstLine.match(/;/g) || []).length >= (firstLine.match(/,/g) || []).length ? ';' : ',';
+};
+
+export const parseCsv = (text: string): string[][] => {
+  const delimiter = detectCsvDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [], field = '', inQuotes = false;
+  const src = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') inQuotes = true;
+    else if (ch === delimiter) { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(f => f.trim())) rows.push(row);
+      row = [];
+    } else field += ch;
+  }
+  row.push(field);
+  if (row.some(f => f.trim())) rows.push(row);
+  return rows;
+};
+
+export const toCsv = (rows: (string | number | undefined)[][], delimiter = ';') => {
+  const escape = (v: string | number | undefined) => {
+    const str = v === undefined ? '' : String(v);
+    return /["\n\r;,]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+  };
+  // BOM so Excel opens accents correctly
+  return '\uFEFF' + rows.map(r => r.map(escape).join(delimiter)).join('\r\n');
+};
+
+export const normalizeHeader = (h: string) => h.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^a-z0-9]/g, '');
+
+// Numbers without country code (DDD + 8/9 digits) are assumed to be Brazilian.
+export const normalizeWhatsapp = (phone: string) => {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length === 10 || digits.length === 11 ? `55${digits}` : digits;
+};
+
+// Accepts YYYY-MM-DD and DD/MM/YYYY (or DD-MM-YYYY, DD/MM/YY). Returns YYYY-MM-DD, '' for an empty
+// value and undefined for anything else, impossible dates like 31/02 included.
+// Two-digit years are 20YY; with `past` (birth dates) a year still to come is read as 19YY.
+export const parseCsvDate = (value: string, past = false): string | undefined => {
+  const v = (value || '').trim();
+  if (!v) return '';
+  const iso = v.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/);
+  const br = v.match(/^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{2}|\d{4})$/);
+  if (!iso && !br) return undefined;
+  let [year, month, day] = iso ? [iso[1], iso[2], iso[3]].map(Number) : [br![3], br![2], br![1]].map(Number);
+  if (br && br[3].length === 2) {
+    year += 2000;
+    if (past && year > new Date().getFullYear()) year -= 100;
+  }
+  if (month < 1 || month > 12 || day < 1 || day > new Date(year, month, 0).getDate()) return undefined;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Accepts "1.234,56", "1234.56", "1.234" (thousands) and "R$ 30,00"
+export const parseCsvAmount = (value: string) => {
+  let v = (value || '').replace(/[^\d,.-]/g, '');
+  if (v.includes(',')) v = v.replace(/\./g, '').replace(',', '.');
+  else if (/^-?\d{1,3}(\.\d{3})+$/.test(v)) v = v.replace(/\./g, '');
+  const n = parseFloat(v);
+  return isNaN(n) ? undefined : n;
+};
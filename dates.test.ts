@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, addMonths, addPlanPeriod, daysBetween, getBankHolidays, getEaster, getScheduledDueDate, isBusinessDay, nextBusinessDay, toDateStr } from './dates';
+
+describe('addMonths', () => {
+  it('clamps to the end of shorter months', () => {
+    expect(addMonths('2026-01-31', 1)).toBe('2026-02-28');
+    expect(addMonths('2026-01-31', 3)).toBe('2026-04-30');
+    expect(addMonths('2026-03-31', -1)).toBe('2026-02-28');
+  });
+
+  it('lands on Feb 29 in leap years', () => {
+    expect(addMonths('2024-01-31', 1)).toBe('2024-02-29');
+    expect(addMonths('2024-02-29', 12)).toBe('2025-02-28');
+    expect(addMonths('2024-02-29', 48)).toBe('2028-02-29');
+  });
+
+  it('rolls over the year', () => {
+    expect(addMonths('2026-11-15', 3)).toBe('2027-02-15');
+    expect(addMonths('2026-12-31', 12)).toBe('2027-12-31');
+  });
+});
+
+describe('addDays', () => {
+  it('crosses month and year boundaries', () => {
+    expect(addDays('2026-01-31', 1)).toBe('2026-02-01');
+    expect(addDays('2026-12-25', 7)).toBe('2027-01-01');
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+  });
+
+  it('keeps calendar days across daylight saving changes', () => {
+    expect(addDays('2018-11-03', 1)).toBe('2018-11-04');
+    expect(daysBetween('2018-11-01', '2018-11-10')).toBe(9);
+  });
+});
+
+describe('toDateStr', () => {
+  it('uses the local date, not UTC', () => {
+    expect(toDateStr(new Date(2026, 0, 31, 23, 30))).toBe('2026-01-31');
+  });
+});
+
+describe('getEaster', () => {
+  it('matches known Easter Sundays', () => {
+    expect(getEaster(2024)).toBe('2024-03-31');
+    expect(getEaster(2025)).toBe('2025-04-20');
+    expect(getEaster(2026)).toBe('2026-04-05');
+    expect(getEaster(2038)).toBe('2038-04-25');
+  });
+
+  it('places the moveable bank holidays around it', () => {
+    const holidays = getBankHolidays(2026);
+    ['2026-02-16', '2026-02-17', '2026-04-03', '2026-06-04'].forEach(d => expect(holidays.has(d)).toBe(true));
+  });
+
+  it('includes Black Consciousness Day only from 2024', () => {
+    expect(getBankHolidays(2023).has('2023-11-20')).toBe(false);
+    expect(getBankHolidays(2024).has('2024-11-20')).toBe(true);
+  });
+});
+
+describe('nextBusinessDay', () => {
+  it('keeps business days', () => {
+    expect(isBusinessDay('2026-03-10')).toBe(true);
+    expect(nextBusinessDay('2026-03-10')).toBe('2026-03-10');
+  });
+
+  it('skips weekends', () => {
+    expect(nextBusinessDay('2026-01-31')).toBe('2026-02-02');
+    expect(nextBusinessDay('2026-02-01')).toBe('2026-02-02');
+  });
+
+  it('skips holidays next to weekends', () => {
+    expect(nextBusinessDay('2026-02-14')).toBe('2026-02-18'); // Carnival
+    expect(nextBusinessDay('2026-04-03')).toBe('2026-04-06'); // Good Friday
+    expect(nextBusinessDay('2026-12-25')).toBe('2026-12-28');
+    expect(nextBusinessDay('2027-01-01')).toBe('2027-01-04');
+  });
+});
+
+describe('addPlanPeriod', () => {
+  const month = { unit: 'months' as const, length: 1 };
+
+  it('drifts to the clamped day when chained without a due day', () => {
+    expect(addPlanPeriod(addPlanPeriod('2026-01-31', month), month)).toBe('2026-03-28');
+  });
+
+  it('returns to the due day after a short month', () => {
+    expect(addPlanPeriod('2026-01-31', month, 31)).toBe('2026-02-28');
+    expect(addPlanPeriod('2026-02-28', month, 31)).toBe('2026-03-31');
+    expect(addPlanPeriod('2026-03-31', month, 31)).toBe('2026-04-30');
+    expect(addPlanPeriod('2026-02-28', { unit: 'months', length: 3 }, 30)).toBe('2026-05-30');
+  });
+
+  it('ignores the due day for day periods', () => {
+    expect(addPlanPeriod('2026-02-28', { unit: 'days', length: 30 }, 31)).toBe('2026-03-30');
+  });
+});
+
+describe('getScheduledDueDate', () => {
+  const anchor = { date: '2026-01-31', number: 1 };
+
+  it('stays on the anchor day after a short month', () => {
+    expect([1, 2, 3, 4].map(n => getScheduledDueDate({}, anchor, n))).toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+    expect(getScheduledDueDate({}, anchor, 13)).toBe('2027-01-31');
+  });
+
+  it('counts from a later anchor after rescheduling', () => {
+    expect(getScheduledDueDate({}, { date: '2026-03-10', number: 3 }, 5)).toBe('2026-05-10');
+  });
+
+  it('follows the recurrence step', () => {
+    expect(getScheduledDueDate({ recurrence: 'weekly' }, anchor, 2)).toBe('2026-02-07');
+    expect(getScheduledDueDate({ recurrence: 'yearly' }, { date: '2024-02-29', number: 1 }, 2)).toBe('2025-02-28');
+  });
+
+  it('moves to the next business day without drifting', () => {
+    expect([1, 2, 3].map(n => getScheduledDueDate({ businessDaysOnly: true }, anchor, n))).toEqual(['2026-02-02', '2026-03-02', '2026-03-31']);
+  });
+});
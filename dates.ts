@@ -0,0 +1,89 @@
+import { AccountPayable, AccountRecurrence, PlanPeriod } from './types';
+
+// Due dates are calendar days kept as local YYYY-MM-DD strings. Never derive them with toISOString():
+// it converts to UTC and moves evening dates to the next day west of Greenwich.
+
+export const parseLocalDate = (dateStr: string | undefined) => {
+  if (!dateStr) return new Date();
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const toDateStr = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+export const addDays = (dateStr: string, days: number) => {
+  const d = parseLocalDate(dateStr);
+  d.setDate(d.getDate() + days);
+  return toDateStr(d);
+};
+
+// Keeps the day of the month, clamped to the end of shorter months (Jan 31 + 1 month = Feb 28)
+export const addMonths = (dateStr: string, months: number) => {
+  const d = parseLocalDate(dateStr);
+  const day = d.getDate();
+  d.setDate(1);
+  d.setMonth(d.getMonth() + months);
+  d.setDate(Math.min(day, new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate()));
+  return toDateStr(d);
+};
+
+// Whole calendar days from `from` to `to`; counted in UTC so daylight saving changes don't skew it
+export const daysBetween = (from: string, to: string) => {
+  const utc = (s: string) => { const [y, m, d] = s.split('-').map(Number); return Date.UTC(y, m - 1, d); };
+  return Math.round((utc(to) - utc(from)) / 86400000);
+};
+
+// Gregorian Easter Sunday (anonymous algorithm)
+export const getEaster = (year: number) => {
+  const a = year % 19, b = Math.floor(year / 100), c = year % 100;
+  const d = Math.floor(b / 4), e = b % 4, f = Math.floor((b + 8) / 25), g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30, i = Math.floor(c / 4), k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7, m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31), day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDateStr(new Date(year, month - 1, day));
+};
+
+// Days Brazilian banks are closed nationwide: national holidays plus Carnival and Corpus Christi.
+// Regional holidays are not included.
+const holidayCache = new Map<number, Set<string>>();
+export const getBankHolidays = (year: number) => {
+  if (!holidayCache.has(year)) {
+    const fixed = ['01-01', '04-21', '05-01', '09-07', '10-12', '11-02', '11-15', '12-25', ...(year >= 2024 ? ['11-20'] : [])];
+    const easter = getEaster(year);
+    holidayCache.set(year, new Set([...fixed.map(md => `${year}-${md}`), ...[-48, -47, -2, 60].map(n => addDays(easter, n))]));
+  }
+  return holidayCache.get(year)!;
+};
+
+export const isBusinessDay = (dateStr: string) => {
+  const weekday = parseLocalDate(dateStr).getDay();
+  return weekday !== 0 && weekday !== 6 && !getBankHolidays(Number(dateStr.slice(0, 4))).has(dateStr);
+};
+
+// A bill due on a weekend or holiday can be paid on the next business day
+export const nextBusinessDay = (dateStr: string) => {
+  let d = dateStr;
+  while (!isBusinessDay(d)) d = addDays(d, 1);
+  return d;
+};
+
+// Month periods keep dateStr's day, clamped, so chaining renewals drifts (Jan 31 -> Feb 28 -> Mar 28);
+// pass `dueDay` to aim for that day of the month instead (Jan 31 -> Feb 28 -> Mar 31)
+export const addPlanPeriod = (dateStr: string, period: Pick<PlanPeriod, 'unit' | 'length'>, dueDay?: number) => {
+  if (period.unit === 'days') return addDays(dateStr, period.length);
+  const date = parseLocalDate(addMonths(dateStr, period.length));
+  if (dueDay) date.setDate(Math.min(dueDay, new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate()));
+  return toDateStr(date);
+};
+
+export const RECURRENCE_PERIODS: Record<AccountRecurrence, Pick<PlanPeriod, 'unit' | 'length'>> = {
+  weekly: { unit: 'days', length: 7 }, monthly: { unit: 'months', length: 1 }, yearly: { unit: 'months', length: 12 }
+};
+
+// Due date of installment `number`, counted from the anchor instead of the previous due date so a
+// Jan 31 start stays on the last day of each month and business-day moves don't accumulate
+export const getScheduledDueDate = (acc: Pick<AccountPayable, 'recurrence' | 'businessDaysOnly'>, anchor: { date: string; number: number }, number: number) => {
+  const step = acc.recurrence ? RECURRENCE_PERIODS[acc.recurrence] : { unit: 'months' as const, length: 1 };
+  const date = addPlanPeriod(anchor.date, { unit: step.unit, length: step.length * (number - anchor.number) });
+  return acc.businessDaysOnly ? nextBusinessDay(date) : date;
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { crc16ccitt, generatePix, isValidCnpj, isValidCpf, isValidPixKey, normalizePixKey } from './pix';
+
+const RANDOM_KEY = '123e4567-e12b-12d1-a456-426655440000';
+const settings = { pixKey: RANDOM_KEY, pixKeyType: 'random' as const, pixName: 'Fulano de Tal', pixCity: 'Brasília', companyName: 'Empresa' };
+
+describe('crc16ccitt', () => {
+  it('matches the CRC-16/CCITT-FALSE check value', () => {
+    expect(crc16ccitt('123456789')).toBe('29B1');
+  });
+
+  it('matches the example payload of the Pix manual', () => {
+    const payload = '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***6304';
+    expect(crc16ccitt(payload)).toBe('1D3D');
+  });
+
+  it('pads short checksums to four digits', () => {
+    expect(crc16ccitt('')).toBe('FFFF');
+    expect(crc16ccitt('A')).toMatch(/^[0-9A-F]{4}$/);
+  });
+});
+
+describe('generatePix', () => {
+  it('builds a static BR Code without amount', () => {
+    expect(generatePix(settings, 0)).toBe(
+      '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR5913FULANO DE TAL6008BRASILIA62070503***6304F012'
+    );
+  });
+
+  it('includes the amount and txid', () => {
+    expect(generatePix(settings, 10.5, 'ABC123')).toBe(
+      '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-426655440000520400005303986540510.505802BR5913FULANO DE TAL6008BRASILIA62100506ABC12363043D34'
+    );
+  });
+
+  it('ends with the CRC of everything before it', () => {
+    const code = generatePix({ ...settings, pixKey: '(11) 98765-4321', pixKeyType: 'phone' }, 99.9, 'TX1');
+    expect(code.slice(-4)).toBe(crc16ccitt(code.slice(0, -4)));
+    expect(code).toContain('0114+5511987654321');
+  });
+
+  it('strips accents and cuts the name to 25 characters', () => {
+    const code = generatePix({ ...settings, pixName: 'João da Conceição Magalhães Filho' }, 0);
+    expect(code).toContain('5925JOAO DA CONCEICAO MAGALH');
+  });
+
+  it('falls back to the company name and BRASIL', () => {
+    const code = generatePix({ ...settings, pixName: '', pixCity: undefined }, 0);
+    expect(code).toContain('5907EMPRESA6006BRASIL');
+  });
+
+  it('returns an empty string for an invalid key', () => {
+    expect(generatePix({ ...settings, pixKey: '123.456.789-00', pixKeyType: 'cpf' }, 10)).toBe('');
+  });
+});
+
+describe('normalizePixKey', () => {
+  it('keeps only digits for CPF and CNPJ', () => {
+    expect(normalizePixKey(' 529.982.247-25 ', 'cpf')).toBe('52998224725');
+    expect(normalizePixKey('11.222.333/0001-81', 'cnpj')).toBe('11222333000181');
+  });
+
+  it('adds the country code to Brazilian phones', () => {
+    expect(normalizePixKey('(11) 98765-4321', 'phone')).toBe('+5511987654321');
+    expect(normalizePixKey('(11) 3456-7890', 'phone')).toBe('+551134567890');
+    expect(normalizePixKey('+55 11 98765-4321', 'phone')).toBe('+5511987654321');
+  });
+
+  it('lowercases e-mail and random keys', () => {
+    expect(normalizePixKey(' Fulano@Exemplo.COM ', 'email')).toBe('fulano@exemplo.com');
+    expect(normalizePixKey(RANDOM_KEY.toUpperCase(), 'random')).toBe(RANDOM_KEY);
+  });
+});
+
+describe('CPF and CNPJ check digits', () => {
+  it('accepts valid numbers', () => {
+    expect(isValidCpf('52998224725')).toBe(true);
+    expect(isValidCpf('11144477735')).toBe(true);
+    expect(isValidCnpj('11222333000181')).toBe(true);
+  });
+
+  it('rejects wrong check digits', () => {
+    expect(isValidCpf('52998224724')).toBe(false);
+    expect(isValidCpf('52998224715')).toBe(false);
+    expect(isValidCnpj('11222333000182')).toBe(false);
+    expect(isValidCnpj('11222333000191')).toBe(false);
+  });
+
+  it('rejects repeated digits and wrong lengths', () => {
+    expect(isValidCpf('11111111111')).toBe(false);
+    expect(isValidCnpj('00000000000000')).toBe(false);
+    expect(isValidCpf('5299822472')).toBe(false);
+    expect(isValidCnpj('1122233300018')).toBe(false);
+  });
+
+  it('is applied by isValidPixKey after normalizing', () => {
+    expect(isValidPixKey('529.982.247-25', 'cpf')).toBe(true);
+    expect(isValidPixKey('529.982.247-26', 'cpf')).toBe(false);
+    expect(isValidPixKey('11.222.333/0001-81', 'cnpj')).toBe(true);
+  });
+});
@@ -0,0 +1,112 @@
+// Pix keys and static BR Codes (Manual de Padrões para Iniciação do Pix)
+
+import { Settings } from './types';
+
+export const crc16ccitt = (str: string) => {
+  let crc = 0xFFFF;
+  for (let c = 0; c < str.length; c++) {
+    crc ^= str.charCodeAt(c) << 8;
+    for (let i = 0; i < 8; i++) {
+      if (crc & 0x8000) crc = (crc << 1) ^ 0x1021;
+      else crc = crc << 1;
+    }
+  }
+  let hex = (crc & 0xFFFF).toString(16).toUpperCase();
+  if (hex.length < 4) hex = "0".repeat(4 - hex.length) + hex;
+  return hex;
+};
+
+export const isValidCpf = (digits: string) => {
+  if (!/^\d{11}$/.test(digits) || /^(\d)\1+$/.test(digits)) return false;
+  const check = (len: number) => {
+    let sum = 0;
+    for (let i = 0; i < len; i++) sum += Number(digits[i]) * (len + 1 - i);
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+  return check(9) === Number(digits[9]) && check(10) === Number(digits[10]);
+};
+
+export const isValidCnpj = (digits: string) => {
+  if (!/^\d{14}$/.test(digits) || /^(\d)\1+$/.test(digits)) return false;
+  const check = (len: number) => {
+    let sum = 0;
+    for (let i = 0; i < len; i++) sum += Number(digits[i]) * ((len - i - 1) % 8 + 2);
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+  return check(12) === Number(digits[12]) && check(13) === Number(digits[13]);
+};
+
+// Keys in the format the DICT registers them: CPF/CNPJ digits only, phone as +55DDDNUMBER,
+// e-mail lowercase, random keys (EVP) as lowercase UUID.
+export const normalizePixKey = (key: string, type: Settings['pixKeyType']) => {
+  const trimmed = key.trim();
+  switch (type) {
+    case 'cpf':
+    case 'cnpj':
+      return trimmed.replace(/\D/g, '');
+    case 'phone': {
+      const digits = trimmed.replace(/\D/g, '');
+      return `+${digits.length === 10 || digits.length === 11 ? `55${digits}` : digits}`;
+    }
+    case 'email':
+    case 'random':
+      return trimmed.toLowerCase();
+  }
+};
+
+export const isValidPixKey = (key: string, type: Settings['pixKeyType']) => {
+  const normalized = normalizePixKey(key, type);
+  switch (type) {
+    case 'cpf': return isValidCpf(normalized);
+    case 'cnpj': return isValidCnpj(normalized);
+    case 'phone': return /^\+55\d{10,11}$/.test(normalized);
+    case 'email': return normalized.length <= 77 && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized);
+    case 'random': return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/.test(normalized);
+  }
+};
+
+// EMV fields only accept plain ASCII; names and cities lose accents and get cut to the spec limit
+const emvText = (value: string, maxLength: number) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7E]/g, '').trim().toUpperCase().substring(0, maxLength).trim();
+
+const PIX_TXID_LENGTH = 25; // Max for static BR Codes, only [A-Za-z0-9]
+
+export const generatePixTxid = (taken: Set<string> = new Set()) => {
+  let txid = '';
+  do {
+    txid = `${Date.now().toString(36)}${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`
+      .toUpperCase().replace(/[^A-Z0-9]/g, '').substring(0, PIX_TXID_LENGTH);
+  } while (taken.has(txid));
+  return txid;
+};
+
+// Static BR Code (Manual de Padrões para Iniciação do Pix). Returns '' when the key is not valid
+// for its type, so a wrong key never reaches a client as a payable code.
+export const generatePix = (settings: Pick<Settings, 'pixKey' | 'pixKeyType' | 'pixName' | 'pixCity' | 'companyName'>, amount: number, txId: string = '***') => {
+  if (!isValidPixKey(settings.pixKey, settings.pixKeyType)) return '';
+  const formatField = (id: string, value: string) => {
+    if (value.length > 99) throw new Error(`Campo EMV ${id} excede 99 caracteres.`);
+    const len = value.length.toString().padStart(2, '0');
+    return `${id}${len}${value}`;
+  };
+  const key = normalizePixKey(settings.pixKey, settings.pixKeyType);
+  const txid = txId === '***' ? txId : txId.replace(/[^A-Za-z0-9]/g, '').substring(0, PIX_TXID_LENGTH) || '***';
+
+  const payload = [
+    formatField('00', '01'),
+    formatField('26', formatField('00', 'br.gov.bcb.pix') + formatField('01', key)),
+    formatField('52', '0000'),
+    formatField('53', '986'),
+    ...(amount > 0 ? [formatField('54', amount.toFixed(2))] : []),
+    formatField('58', 'BR'),
+    formatField('59', emvText(settings.pixName || settings.companyName, 25) || 'N'),
+    formatField('60', emvText(settings.pixCity || 'BRASIL', 15) || 'BRASIL'),
+    formatField('62', formatField('05', txid))
+  ].join('');
+
+  const crcPayload = `${payload}6304`;
+  const crc = crc16ccitt(crcPayload);
+  return `${crcPayload}${crc}`;
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { encodeQr } from './qr';
+
+// Reference matrices from the `qrcode` npm package (byte mode, level M); '#' is a dark module
+const PIX_V1 = [
+  '#######..#.#..#######',
+  '#.....#.....#.#.....#',
+  '#.###.#.#.#.#.#.###.#',
+  '#.###.#.###...#.###.#',
+  '#.###.#.#.#.#.#.###.#',
+  '#.....#.####..#.....#',
+  '#######.#.#.#.#######',
+  '........#............',
+  '#.#####..###..#####..',
+  '..#..#.#.######.....#',
+  '#..#####....#.##.###.',
+  '.##....########..##..',
+  '...#.##.#...#..#.#...',
+  '........##..#..#...#.',
+  '#######..###.#..#.##.',
+  '#.....#.#......##.###',
+  '#.###.#.#.##.#..#.#..',
+  '#.###.#.#.#####..#...',
+  '#.###.#.##..#.##.....',
+  '#.....#..######..#...',
+  '#######.#...#..#..##.'
+];
+
+const BR_CODE_V9 = [
+  '#######..#.##.#.##..#...#...#.##...#.#.##.#...#######',
+  '#.....#..##..####.#..#.##..#.#.#..##.#.#.###..#.....#',
+  '#.###.#.##.####.###...#.#.......#.####..#..#..#.###.#',
+  '#.###.#.#.#.#.......#...#..####...###..#.##.#.#.###.#',
+  '#.###.#.#....#...#...##########.#..#.#.#..#...#.###.#',
+  '#.....#.#..###..##.#.#..#...#.#..####.##..#...#.....#',
+  '#######.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#######',
+  '........####.##...#.#.###...##.##....#..#####........',
+  '#.#####......#.##..#.#..######......##.#..#...#####..',
+  '#####........##...#.#.###..#..#..#.#.#....##.#..#...#',
+  '...##.###.....#.##.##...#....#....##.##..#..#.#.##.#.',
+  '.#.#.#..###.###.###.#..##..#.##..#.#..###.#...#.##.#.',
+  '##.####.#.#.#.####..#....###..##.#..#....####..#####.',
+  '...#.#..###...#..#.##...#...###........####....##.##.',
+  '..##..####.#.###.#.#.#.#...#..###...####....###......',
+  '...#.#.##.##..##.##.#...#..#.#...##.....#....#..#....',
+  '#...#.########..##.#...#####...#.#.##..#.##.##.####..',
+  '.####...##.##.#.###..#.###..####...#......##.#.###.#.',
+  '#..##.#...#.....###...#..#.#.#.##...####......#......',
+  '....#..##....#..#.##.#####.#..###........#..#.##.#.#.',
+  '###.###.#.#..#..#####.##...##....######....####.#..#.',
+  '######.#..##.#..#....#.##...#.#.##.#.#...##.....##..#',
+  '###.###.##..###...##..#.#..#.#...#####.#..#.#..##.##.',
+  '#####.....#.#.#####...##.....#..#.###...##.#.##..#...',
+  '###.#####..##..####.....#####..#...##.##....#####..##',
+  '#.#.#...##...#..#.##.####...######...#.####.#...#..##',
+  '###.#.#.#.#.##.#...#.#.##.#.#.#..######...###.#.#....',
+  '#...#...#######...#.##.##...#######.#...#...#...#..#.',
+  '###.#####......##....#.######......#####.##.#######..',
+  '.#...#...#..#.#.#...#.#####...####.###.#..#.######..#',
+  '.#..#.##.##..#..#...##..###.##....#.#.##.#.##...#..#.',
+  '#......##...##..#.##..###.##..#..#.##...###.##..##...',
+  '##.#.##...#.###.#.#......#######.#.##....##.##.#..#.#',
+  '.#...#..##.####....###.....#.###.......#.##.#...##.#.',
+  '....####..##..#.#...##..#..##.##.#..####....##....#..',
+  '##..#..#...##..#####.##.##.#..#..##...#.##.#..#.#..#.',
+  '#....#####.##.###.#...........##...###.#....###.###..',
+  '#...#.....#..#.#######.#####.###.#...#.#..#....###.##',
+  '.#.####..#..#..#.#...#..#...#..#..##.#.#.#......##.#.',
+  '.#.###..#..#..##..#.....#..#..###.#..#...######......',
+  '..#..###...#####.###.#.....#..##.####....##.....#.##.',
+  '.#.#.#.##.#..#.##..#...####...#.#....#.#.#########..#',
+  '##.######....#####.#.#..###.##...###.#.#.#####..####.',
+  '.##.....##.#..###.###.####......#.###...##.#..#.##..#',
+  '...#..#####.#.####......#####.##.####.##.#..#####..#.',
+  '........##...#.#.#.#.#.##...###.#..##..#.##.#...#...#',
+  '#######...#.#.##..#...#.#.#.#.#..####.#..####.#.#....',
+  '#.....#.##......#..####.#...#.####..#...#.#.#...#..##',
+  '#.###.#.########.#.##.#.#####....#####.#..#.#######.#',
+  '#.###.#.#..###.#..####.###....#.##.#......#....#.####',
+  '#.###.#.#.#.#.##.###.#..##.###.#..#.#.####.#.#..#####',
+  '#.....#...#.#..##.####.#.#.#.###.#..#...##.##..###.#.',
+  '#######.#.#####.#.#.#.#.##....##...##.#..##.##.##....'
+];
+
+const BR_CODE = '00020126490014br.gov.bcb.pix0127contato@minhaempresa.com.br5204000053039865406129.905802BR5925MINHA EMPRESA DE INTERNET6009SAO PAULO62290525ABCDEFGHIJKLMNOPQRSTUVWXY6304ADE0';
+
+const render = (modules: boolean[][]) => modules.map(row => row.map(dark => dark ? '#' : '.').join(''));
+
+describe('encodeQr', () => {
+  it('matches the reference encoder for a short text (version 1)', () => {
+    expect(render(encodeQr('Pix'))).toEqual(PIX_V1);
+  });
+
+  it('matches the reference encoder for a BR Code (version 9, with version information)', () => {
+    const modules = encodeQr(BR_CODE);
+    expect(modules.length).toBe(9 * 4 + 17);
+    expect(render(modules)).toEqual(BR_CODE_V9);
+  });
+
+  it('rejects text beyond version 40', () => {
+    expect(() => encodeQr('x'.repeat(2400))).toThrow();
+  });
+});
@@ -2,49 +2,194 @@
 export interface Plan {
   id: string;
   name: string;
-  price: number;
   description: string;
+  connections: number; // Simultaneous screens
+  periods: PlanPeriod[]; // Price table, at least one entry; periods[0] is the default
+  priceHistory: PlanPriceChange[]; // Price versions, see getPeriodPrice
+  archived?: boolean; // Kept for existing clients, hidden when choosing a plan
 }
 
-export interface PaymentHistoryItem {
-  date: string;
-  amount: number;
+export interface PlanPeriod {
+  id: string;
+  unit: 'days' | 'months';
+  length: number; // 1 month = monthly, 3 = quarterly, 6 = semiannual, 12 = annual
+  price: number; // Price when the period was created; later prices live in Plan.priceHistory
+}
+
+export interface PlanPriceChange {
+  id: string;
+  periodId: string;
+  previousPrice: number;
+  price: number;
+  effectiveFrom: string; // YYYY-MM-DD, first period start charged the new price
+  changedAt: string; // ISO String
+  grandfathered: number; // Lines kept on previousPrice through Subscription.priceOverrides
+}
+
+export type LedgerEntryType = 'charge' | 'payment' | 'partial_payment' | 'discount' | 'refund' | 'write_off';
+
+export type PaymentMethod = 'pix' | 'cash' | 'transfer';
+
+export interface LedgerEntry {
+  id: string;
+  date: string; // ISO String
+  type: LedgerEntryType;
+  amount: number; // Always positive, the type gives the sign (see LEDGER_SIGN)
+  method?: PaymentMethod; // Payments and refunds
+  reference?: string; // Pix txid, bank reference, receipt number...
+  description?: string;
+  periodStart?: string; // YYYY-MM-DD, plan cycle a charge refers to
+  periodEnd?: string; // YYYY-MM-DD
+  receiptNumber?: number; // Sequential across all clients, set when a payment is recorded
+  subscriptionId?: string; // Line a renewal charge refers to
+}
+
+export type MessageContext = 'birthday' | 'overdue' | 'due_today' | 'due_soon' | 'paid' | 'general';
+
+export interface MessageLogEntry {
+  id: string;
+  date: string; // ISO String
+  channel: 'whatsapp';
+  context: MessageContext | 'charge' | 'campaign' | 'receipt' | 'access';
+  text: string; // Rendered text as sent ('' when only the chat was opened)
+  templateId?: string;
+  campaignId?: string;
+  reminderKey?: string; // `${ruleId}:${dueDate}` when sent by a ReminderRule
 }
 
 export interface Client {
   id: string;
   name: string;
   whatsapp: string;
+  // planId, periodId, priceOverrides, dueDate and dueTime mirror the active subscription
+  // that expires first and are only written by withSubscriptions
   planId: string;
+  periodId?: string;
+  priceOverrides?: Record<string, number>;
   dueDate: string; // YYYY-MM-DD (Plan Expiration)
   dueTime?: string; // HH:MM (Optional)
+  subscriptions: Subscription[]; // One per line/screen, at least one
   paymentDate?: string; // YYYY-MM-DD (Date the payment is expected)
   birthDate: string; // YYYY-MM-DD
-  paymentStatus: 'paid' | 'pending';
+  paymentStatus: 'paid' | 'pending'; // Derived from ledger, never set by hand
   profileImage?: string; // Base64 string for client photo
   notes?: string;
   createdAt?: string; // YYYY-MM-DD - Date of registration
-  amountOwed?: number; // Specific amount owed (allows for 2x, 3x accumulation)
-  paymentHistory?: PaymentHistoryItem[];
+  amountOwed?: number; // Derived from ledger: current balance (allows for 2x, 3x accumulation)
+  ledger: LedgerEntry[];
+  messageLog?: MessageLogEntry[];
+  renewalDiscounts?: RenewalDiscount[]; // All consumed by the next renewal
+  referredBy?: string; // Client id of whoever referred this client
+  referralRewarded?: boolean; // Referrer already credited for this client's first payment
+  pixCharges?: PixCharge[]; // Every BR Code sent, so a received Pix can be matched by txid
+}
+
+export interface Subscription {
+  id: string;
+  planId: string;
+  periodId?: string; // Billing period of the plan used for renewals (default: the plan's first period)
+  priceOverrides?: Record<string, number>; // periodId -> price this line pays instead of the plan's
+  dueDate: string; // YYYY-MM-DD
+  dueDay?: number; // Day of the month monthly renewals return to after a short month clamped dueDate
+  dueTime?: string; // HH:MM (Optional)
+  username?: string; // Panel login of the line
+  password?: string;
+  serverUrl?: string; // M3U list or Xtream Codes server URL
+  devices?: Device[];
+  supplierId?: string; // Upstream panel the line is activated on
+  status: 'active' | 'suspended' | 'cancelled'; // Only active lines are charged and alerted
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  creditCost: number; // R$ paid per credit
+  notes?: string;
+  movements: SupplierMovement[]; // The credit balance is their sum (see getSupplierBalance)
+}
+
+export interface SupplierMovement {
+  id: string;
+  date: string; // ISO String
+  type: 'purchase' | 'activation' | 'adjustment';
+  credits: number; // Positive adds credits, negative spends them
+  cost: number; // R$: paid for a purchase, credits × creditCost for an activation
+  revenue?: number; // Activations: what the client was charged for the renewal, after discounts
+  clientId?: string;
+  subscriptionId?: string;
+  description?: string;
+}
+
+export type DeviceType = 'tv_box' | 'smart_tv' | 'fire_stick' | 'phone' | 'computer' | 'other';
+
+export interface Device {
+  id: string;
+  type: DeviceType;
+  mac?: string; // AA:BB:CC:DD:EE:FF when 12 hex digits were typed (see normalizeMac)
+  app?: string; // Player app, e.g. IPTV Smarters, XCIPTV
+  label?: string; // Free text: room, who uses it...
+}
+
+export interface PixCharge {
+  txid: string; // [A-Z0-9]{25}, unique across clients
+  amount: number;
+  createdAt: string; // ISO String
+}
+
+export interface RenewalDiscount {
+  kind: 'percent' | 'fixed';
+  value: number;
+  reason: 'birthday' | 'coupon' | 'referral';
+  grantedAt: string; // ISO String
+  couponId?: string;
+  source?: string; // Coupon code or referred client's name, shown on the discount entry
+}
+
+export interface Coupon {
+  id: string;
+  code: string; // Stored uppercase (see normalizeCouponCode)
+  kind: 'percent' | 'fixed';
+  value: number;
+  validFrom?: string; // YYYY-MM-DD
+  validUntil?: string; // YYYY-MM-DD, inclusive
+  maxUses?: number; // Empty = unlimited
+  uses: number; // Counted when the coupon is applied to a client
+  createdAt: string; // ISO String
 }
 
 export interface AccountInstallment {
   id: string;
   number: number;
-  value: number; // Remaining value to pay
-  originalValue?: number; // Original value before partial payments
+  value: number; // Principal of the installment, editable; late charges and payments are applied on top
+  originalValue: number; // Principal when the installment was created
   dueDate: string; // YYYY-MM-DD
   status: 'pending' | 'paid';
   paidDate?: string; // YYYY-MM-DD
+  payments: InstallmentPayment[]; // What is still owed comes from getInstallmentCharges
+}
+
+export interface InstallmentPayment {
+  id: string;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  method?: PaymentMethod;
+  reference?: string;
 }
 
+export type AccountRecurrence = 'weekly' | 'monthly' | 'yearly';
+
 export interface AccountPayable {
   id: string;
   name: string;
   description?: string;
-  totalValue: number;
+  totalValue: number; // Recurring accounts: expected amount of each bill
   installmentsCount: number;
   installments: AccountInstallment[];
+  recurrence?: AccountRecurrence; // Open-ended bill; paying the open installment creates the next one
+  lateFeePercent?: number; // One-off fee on the principal once an installment is overdue
+  dailyInterestPercent?: number; // Simple interest on the principal per day overdue
+  businessDaysOnly?: boolean; // Generated due dates on weekends or bank holidays move to the next business day
+  scheduleAnchor?: { date: string; number: number }; // Installment `number` falls on `date` (YYYY-MM-DD); later ones count whole periods from it
 }
 
 export interface Settings {
@@ -59,6 +204,8 @@ export interface Settings {
   dashboardUrgentDays: number; // Configurable days for the 'Urgent' card (default 1)
   dashboardShowBirthdays: boolean; // Toggle for birthdays
   dashboardBirthdayDays: number; // Days to look ahead for birthdays
+  birthdayDiscountPercent?: number; // Offered on the renewal after a birthday (0 = off)
+  referralCredit?: number; // R$ off the referrer's next renewal when a referred client first pays (0 = off)
   dashboardShowAccounts: boolean; // Show accounts on dashboard
   dashboardAccountsDays: number; // Days to look ahead for accounts
   dashboardShowPaymentMonitoring: boolean; // Toggle for payment monitoring card
@@ -67,10 +214,22 @@ export interface Settings {
   // Pix Settings
   pixName: string;
   pixKeyType: 'cpf' | 'cnpj' | 'email' | 'phone' | 'random';
-  pixKey: string;
+  pixKey: string; // Stored normalized (see normalizePixKey)
+  pixCity?: string; // Merchant city in the BR Code (defaults to BRASIL)
 
   // Language
   language: 'pt' | 'en' | 'es';
+
+  // Automated reminders
+  reminderRules: ReminderRule[];
+}
+
+export interface ReminderRule {
+  id: string;
+  offsetDays: number; // Relative to dueDate: -3 = 3 days before, 0 = on the day, 5 = 5 days overdue
+  templateType: MessageTemplate['type'];
+  templateId?: string; // Specific template; otherwise the first template of templateType
+  enabled: boolean;
 }
 
 export interface LicenseState {
@@ -80,19 +239,54 @@ export interface LicenseState {
 }
 
 export interface AppData {
+  schemaVersion: number; // Incremented whenever the stored shape changes (see MIGRATIONS)
   clients: Client[];
   plans: Plan[];
   accountsPayable: AccountPayable[];
   settings: Settings;
   license: LicenseState;
   messageTemplates: MessageTemplate[];
+  campaigns: Campaign[];
+  coupons: Coupon[];
+  suppliers: Supplier[];
 }
 
 export interface MessageTemplate {
   id: string;
   title: string;
-  type: 'renewal' | 'offer' | 'combo' | 'discount' | 'birthday' | 'general' | 'overdue' | 'due_soon' | 'black_friday' | 'gratitude' | 'support_solved' | 'blocked' | 'contract_anniversary' | 'client_birthday' | 'plans';
+  type: 'renewal' | 'offer' | 'combo' | 'discount' | 'birthday' | 'general' | 'overdue' | 'due_soon' | 'black_friday' | 'gratitude' | 'support_solved' | 'blocked' | 'contract_anniversary' | 'client_birthday' | 'plans' | 'access_data';
   content: string;
 }
 
-export type ViewState = 'dashboard' | 'clients' | 'plans' | 'expirations' | 'communication' | 'settings' | 'accounts' | 'licensePlans' | 'activation';
+export interface CampaignSegment {
+  planId: string; // 'all' for every plan
+  paymentStatus: 'all' | 'paid' | 'pending';
+  minOverdueDays?: number; // Only clients whose plan expired at least N days ago
+  birthdayMonth?: number; // 1-12
+}
+
+export interface CampaignRecipient {
+  clientId: string;
+  status: 'pending' | 'sent' | 'skipped';
+  updatedAt?: string; // ISO String
+}
+
+export interface Campaign {
+  id: string;
+  name: string;
+  templateId: string;
+  content: string; // Template text frozen when the campaign is created
+  segment: CampaignSegment;
+  recipients: CampaignRecipient[]; // Fixed at creation so the queue can be resumed
+  createdAt: string; // ISO String
+  finishedAt?: string; // ISO String
+}
+
+export interface BackupFile {
+  app: string;
+  schemaVersion: number;
+  exportedAt: string; // ISO String
+  data: AppData;
+}
+
+export type ViewState = 'dashboard' | 'clients' | 'plans' | 'expirations' | 'communication' | 'campaigns' | 'analytics' | 'settings' | 'accounts' | 'suppliers' | 'licensePlans' | 'activation';